@@ -0,0 +1,38 @@
+import { renderCfg } from "@/lib/cfg";
+import { readCfgSpec } from "@/lib/roster";
+import { isRecord } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+
+function respond(raw: Record<string, unknown>) {
+  const { spec, errors } = readCfgSpec(raw, "request");
+  if (!spec) return Response.json({ ok: false, errors }, { status: 400 });
+
+  const cfg = renderCfg(spec);
+  if (cfg.text === null) {
+    return Response.json({ ok: false, errors: cfg.issues.filter(i => i.severity === "error").map(i => i.message) }, { status: 400 });
+  }
+  return new Response(cfg.text, {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${cfg.fileName}"`,
+    },
+  });
+}
+
+// e.g. /api/cfg?account=Main&mode=Standard&equity=55000, or mode=Custom with RiskSettings fields as parameters
+export function GET(request: Request) {
+  return respond(Object.fromEntries(new URL(request.url).searchParams));
+}
+
+// Same fields as JSON; Custom settings may also be nested under `settings`
+export async function POST(request: Request) {
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return Response.json({ ok: false, errors: ["Body is not valid JSON"] }, { status: 400 });
+  }
+  if (!isRecord(raw)) return Response.json({ ok: false, errors: ["Body must be a JSON object"] }, { status: 400 });
+  return respond(raw);
+}
@@ -0,0 +1,98 @@
+import { ensureDasClient } from "@/lib/das-client";
+import { listenerCount, publish, subscribe, type FeedMessage } from "@/lib/feed-hub";
+import { parseSnapshot } from "@/lib/snapshot";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const MAX_BODY_BYTES = 1_000_000;
+const HEARTBEAT_MS = 15_000;
+
+function json(body: unknown, status: number) {
+  return Response.json(body, { status });
+}
+
+/**
+ * Push account values to every open dashboard. Pushes are off until
+ * SNAPSHOT_TOKEN is set, then need `Authorization: Bearer <token>`; a route
+ * handler cannot tell a local script from a spoofed X-Forwarded-For, so there
+ * is no token-free loopback mode. The body is validated in full and rejected
+ * with the list of problems if anything is wrong.
+ */
+export async function POST(request: Request) {
+  const token = process.env.SNAPSHOT_TOKEN;
+  if (!token) {
+    return json({ ok: false, errors: ["Pushes are off; set SNAPSHOT_TOKEN on the server to accept them"] }, 403);
+  }
+  if (request.headers.get("authorization") !== `Bearer ${token}`) {
+    return json({ ok: false, errors: ["Missing or wrong bearer token"] }, 401);
+  }
+
+  const text = await request.text();
+  if (text.length > MAX_BODY_BYTES) return json({ ok: false, errors: ["Body is too large"] }, 413);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return json({ ok: false, errors: ["Body is not valid JSON"] }, 400);
+  }
+
+  const { snapshot, errors } = parseSnapshot(raw);
+  if (!snapshot) return json({ ok: false, errors }, 400);
+
+  publish({ event: "snapshot", data: snapshot });
+  return json({ ok: true, receivedAt: snapshot.receivedAt, dashboards: listenerCount() }, 202);
+}
+
+/**
+ * Server-Sent Events stream of snapshots (pushed here or read from DAS) and of
+ * the DAS connection status. Only snapshots arriving after connecting are sent;
+ * the current DAS status is sent straight away.
+ */
+export function GET(request: Request) {
+  ensureDasClient();
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Enqueueing on a stream the client has left throws; drop that client so publish() cannot fail the POST that called it
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (message: FeedMessage) => write(`event: ${message.event}\ndata: ${JSON.stringify(message.data)}\n\n`);
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_MS);
+
+      write("retry: 3000\n\n");
+      const unsubscribe = subscribe(send);
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -1,9 +1,42 @@
 
 "use client";
 import { useEffect, useMemo, useState } from "react";
-import { PRESET_MAP, type Mode, type RiskSettings, dollars, pct } from "@/lib/calc";
-
-type Status = "Safe" | "Caution" | "Danger";
+import { PRESET_MAP, THRESHOLD_MAP, type Mode, type RiskSettings, type ScaledField, type StatusThresholds, dollars, pct } from "@/lib/calc";
+import { type Position } from "@/lib/positions";
+import { renderCfg } from "@/lib/cfg";
+import { defaultProfile, evaluateProfile, profileCfgSpec, profileModeLabel, profileThresholds, type AccountProfile } from "@/lib/profiles";
+import { parseShareHash, type ProfileImportResult } from "@/lib/share";
+import { createPreset, findPreset, uniqueName, type NamedPreset } from "@/lib/presets";
+import { validateSettings, type SettingsIssue } from "@/lib/validation";
+import { riskSignals } from "@/lib/alerts";
+import { evaluateSession, formatCountdown } from "@/lib/session";
+import { closeSession, entriesFor, priorClose, recordEntry, todayKey } from "@/lib/journal";
+import { exportChange, stampChanges } from "@/lib/audit";
+import { applySnapshot, snapshotTarget } from "@/lib/snapshot";
+import { activeTier, hasScaling, scaleLimits, scaledNote, tierLabel } from "@/lib/tiers";
+import { downloadText } from "@/lib/utils";
+import { CfgImport } from "@/components/cfg-import";
+import { StatusChip } from "@/components/status-chip";
+import { PositionLedger } from "@/components/position-ledger";
+import { DasCsvImport } from "@/components/das-csv-import";
+import { ProfileBar } from "@/components/profile-bar";
+import { FirmRollup } from "@/components/firm-rollup";
+import { SessionJournal } from "@/components/session-journal";
+import { PresetLibrary } from "@/components/preset-library";
+import { SettingsDiff } from "@/components/settings-diff";
+import { SessionClock, useClock } from "@/components/session-clock";
+import { AlertCenter, useRiskAlerts } from "@/components/alert-center";
+import { ThresholdSettings } from "@/components/threshold-settings";
+import { EquityScaling } from "@/components/equity-scaling";
+import { ScenarioSimulator } from "@/components/scenario-simulator";
+import { PositionSizer } from "@/components/position-sizer";
+import { ProfileShare, SharedPreview } from "@/components/profile-share";
+import { RiskSheet } from "@/components/risk-sheet";
+import { StorageRecovery } from "@/components/storage-recovery";
+import { SyncNotice } from "@/components/sync-notice";
+import { usePersistedState, useStateField } from "@/components/use-persisted-state";
+import { AuditLog, ReasonPrompt, useAuditRecorder, type AuditPoint } from "@/components/audit-log";
+import { FeedStatus, useSnapshotFeed } from "@/components/snapshot-feed";
 
 // Tooltip component
 function Tooltip({ children, content }: { children: React.ReactNode; content: string }) {
@@ -70,87 +103,145 @@ function Tooltip({ children, content }: { children: React.ReactNode; content: st
   );
 }
 
-function useLocalState<T>(key: string, defaultValue: T) {
-  const [val, setVal] = useState<T>(defaultValue);
-  const [isHydrated, setIsHydrated] = useState(false);
-  
-  useEffect(() => {
-    // Load from localStorage after hydration
-    const raw = localStorage.getItem(key);
-    if (raw) {
-      setVal(JSON.parse(raw) as T);
-    }
-    setIsHydrated(true);
-  }, [key]);
-  
-  useEffect(() => { 
-    if (isHydrated) {
-      localStorage.setItem(key, JSON.stringify(val)); 
-    }
-  }, [key, val, isHydrated]);
-  
-  return [val, setVal, isHydrated] as const;
-}
+// Stand-in while profiles hydrate so hooks below always have something to evaluate
+const EMPTY_PROFILE = defaultProfile("");
 
 export default function Page() {
-  const [mode, setMode, modeHydrated] = useLocalState<Mode>("risk_mode", "Standard");
-  const [equity, setEquity, equityHydrated] = useLocalState<number>("equity", 55000);
-  const [priorEquity, setPriorEquity, priorEquityHydrated] = useLocalState<number>("prior_equity", 55000);
-  const [todaysPnL, setTodaysPnL, todaysPnLHydrated] = useLocalState<number>("todays_pnl", 0);
-  const [haltedExposure, setHaltedExposure, haltedExposureHydrated] = useLocalState<number>("halted_exposure", 0);
-  const [customSettings, setCustomSettings, customSettingsHydrated] = useLocalState<RiskSettings>("custom_settings_v2", PRESET_MAP.Custom);
+  const [state, setState, stateHydrated, loadReport, syncConflicts, setSyncConflicts] = usePersistedState();
+  const { profiles, activeProfileId, journal, presets, holidays, alertPrefs, auditPrefs, audit } = state;
+  const setProfiles = useStateField(setState, "profiles");
+  const setActiveProfileId = useStateField(setState, "activeProfileId");
+  const setJournal = useStateField(setState, "journal");
+  const setPresets = useStateField(setState, "presets");
+  const setHolidays = useStateField(setState, "holidays");
+  const setAlertPrefs = useStateField(setState, "alertPrefs");
+  const setAuditPrefs = useStateField(setState, "auditPrefs");
+  const setAudit = useStateField(setState, "audit");
+  const [showLoadReport, setShowLoadReport] = useState(true);
+
+  // Opened from a share link: preview the shared account read-only until it is accepted
+  const [shared, setShared] = useState<ProfileImportResult | null>(null);
+  useEffect(() => {
+    const read = () => setShared(parseShareHash(window.location.hash));
+    read();
+    window.addEventListener("hashchange", read);
+    return () => window.removeEventListener("hashchange", read);
+  }, []);
+  const preview = shared?.profile ?? null;
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const profile = preview ?? activeProfile ?? EMPTY_PROFILE;
+  const { mode, equity, priorEquity, todaysPnL, haltedExposure, positions, tradeCount, pnlHighWater } = profile;
+
+  // In Custom mode a named preset, when one is selected, replaces the unnamed slot
+  const activePreset = mode === "Custom" ? findPreset(presets, profile.presetId) : undefined;
+  const customSettings = activePreset?.settings ?? profile.customSettings;
+  const customThresholds = (activePreset ? activePreset.thresholds : profile.customThresholds) ?? THRESHOLD_MAP.Custom;
+
+  function updateProfile(patch: Partial<AccountProfile>) {
+    setProfiles(prev => prev.map(p => p.id === profile.id ? { ...p, ...patch } : p));
+  }
+  // Edits the change log watches; each marks the account as edited here rather than synced in
+  function auditedUpdate(patch: Partial<AccountProfile>) {
+    auditRecorder.touch();
+    updateProfile(patch);
+  }
+  const setMode = (v: Mode) => auditedUpdate(v === "Custom" ? { mode: v, presetId: null } : { mode: v });
+  const setEquity = (v: number) => auditedUpdate({ equity: v });
+  const setPriorEquity = (v: number) => updateProfile({ priorEquity: v });
+  const setTodaysPnL = (v: number) => updateProfile({ todaysPnL: v });
+  const setHaltedExposure = (v: number) => updateProfile({ haltedExposure: v });
+  const setCustomSettings = (v: RiskSettings) => {
+    auditRecorder.touch();
+    if (activePreset) setPresets(prev => prev.map(p => p.id === activePreset.id ? { ...p, settings: v } : p));
+    else updateProfile({ customSettings: v });
+  };
+  const setCustomThresholds = (v: StatusThresholds) => {
+    auditRecorder.touch();
+    if (activePreset) setPresets(prev => prev.map(p => p.id === activePreset.id ? { ...p, thresholds: v } : p));
+    else updateProfile({ customThresholds: v });
+  };
+  // Positions entered here replace any unrealized P&L a feed reported without them
+  const setPositions = (v: Position[]) => updateProfile({ positions: v, reportedUnrealizedPnL: undefined });
+  const setTradeCount = (v: number) => updateProfile({ tradeCount: v });
+  const setPnlHighWater = (v: number) => updateProfile({ pnlHighWater: v });
 
   // Only proceed with calculations after all values are hydrated
-  const isHydrated = modeHydrated && equityHydrated && priorEquityHydrated && todaysPnLHydrated && haltedExposureHydrated && customSettingsHydrated;
+  const isHydrated = stateHydrated && activeProfile !== undefined;
 
   // Input validation
   const validationErrors = {
     equity: equity <= 0 ? "Equity must be greater than 0" : null,
     priorEquity: priorEquity <= 0 ? "Prior equity must be greater than 0" : null,
     haltedExposure: haltedExposure < 0 ? "Halted exposure cannot be negative" : null,
+    tradeCount: tradeCount < 0 ? "Trade count cannot be negative" : null,
   };
 
   const hasValidationErrors = Object.values(validationErrors).some(error => error !== null);
 
-  // Get current settings based on mode
-  const currentSettings = mode === "Custom" ? customSettings : PRESET_MAP[mode];
-
-  // Custom settings are now independent - no automatic copying from presets
-
-  const drawdown = useMemo(() => priorEquity > 0 ? (equity / priorEquity - 1) : 0, [equity, priorEquity]);
-  const drawdownStatus: Status = drawdown <= -0.10 ? "Danger" : drawdown <= -0.05 ? "Caution" : "Safe";
-
-  const dayLossLimit = -(equity * currentSettings.dailyLossLimit);
-  const totalLossLimit = -(equity * currentSettings.totalLossLimit);
-  const perSymbolLimit = -(equity * currentSettings.perSymbolLossLimit);
-  const perTickerExposure = (equity * currentSettings.perSymbolExposureLimit);
-  const totalExposure = (equity * currentSettings.totalExposureLimit);
-  const profitLockStart = (equity * currentSettings.profitLockStart);
-  const profitLockDrawdown = currentSettings.profitLockDrawdown;
-
-  const remainingBudget = dayLossLimit - todaysPnL;
-  // For status, we want to check how much of the loss limit has been used
-  const lossUsed = Math.abs(todaysPnL);
-  const lossLimit = Math.abs(dayLossLimit);
-  const remainingStatus: Status = lossUsed > 0.8 * lossLimit ? "Danger"
-                                : lossUsed > 0.5 * lossLimit ? "Caution"
-                                : "Safe";
-
-  // Total loss calculation should be based on total unrealized + realized losses
-  const totalUnrealizedLoss = 0; // This would come from actual positions in DAS
-  const totalLossUsed = todaysPnL + totalUnrealizedLoss;
-  const totalLossRemaining = totalLossLimit - totalLossUsed;
-  const haltedPct = equity > 0 ? haltedExposure / equity : 0;
-  const haltedStatus: Status = haltedPct > 0.40 ? "Danger" : haltedPct > 0.20 ? "Caution" : "Safe";
-
-  const flattenNow = (lossUsed > 0.9 * lossLimit) || (haltedPct > 0.40);
-
-  function statusColor(s: Status) {
-    return s === "Danger" ? "bg-danger" : s === "Caution" ? "bg-caution" : "bg-safe";
+  // Settings, position ledger and risk evaluation for the active account
+  const evaluation = useMemo(() => evaluateProfile(profile, presets), [profile, presets]);
+  const { settings: currentSettings, thresholds: currentThresholds, ledger, unrealizedPnL, risk } = evaluation;
+  const validation = useMemo(() => validateSettings(currentSettings, profile.equity), [currentSettings, profile.equity]);
+
+  const modeLabel = profileModeLabel(profile, presets);
+  const auditPoint = useMemo((): AuditPoint => ({
+    snapshot: { profileId: profile.id, account: profile.name, modeLabel, settings: currentSettings, thresholds: currentThresholds, equity: profile.equity },
+    profile,
+    preset: activePreset,
+  }), [profile, modeLabel, currentSettings, currentThresholds, activePreset]);
+  const auditRecorder = useAuditRecorder(auditPoint, isHydrated && preview === null, auditPrefs, (entries) => setAudit(prev => [...prev, ...entries]));
+
+  function revertAudited() {
+    const restore = auditRecorder.revert();
+    if (!restore) return;
+    const { profile: before, preset } = restore;
+    setProfiles(prev => prev.map(p => p.id === before.id
+      ? { ...p, mode: before.mode, presetId: before.presetId, equity: before.equity, customSettings: before.customSettings, customThresholds: before.customThresholds }
+      : p));
+    if (preset) setPresets(prev => prev.map(p => p.id === preset.id ? { ...p, settings: preset.settings, thresholds: preset.thresholds } : p));
   }
 
-  function statusIcon(s: Status) {
-    return s === "Danger" ? "🔴" : s === "Caution" ? "🟡" : "🟢";
+  // Snapshots pushed to /api/snapshot overwrite the typed inputs of the account they name
+  const [applyFeed, setApplyFeed] = useState(true);
+  const feed = useSnapshotFeed(isHydrated && preview === null && applyFeed, (snapshot) => {
+    const target = snapshotTarget(profiles, snapshot);
+    if (!target) return null;
+    setProfiles(prev => prev.map(p => p.id === target.id ? applySnapshot(p, snapshot) : p));
+    return target.name;
+  });
+
+  const alertSignals = useMemo(() => riskSignals(risk), [risk]);
+  const alerts = useRiskAlerts(profile.id, alertSignals, alertPrefs, isHydrated);
+
+  const now = useClock();
+  const session = useMemo(() => evaluateSession(now, currentSettings.stopTime, holidays), [now, currentSettings.stopTime, holidays]);
+
+  // Ratchet the high-water mark up as P&L makes new intraday highs
+  useEffect(() => {
+    if (isHydrated && risk.profitLock.peak > pnlHighWater) {
+      setProfiles(prev => prev.map(p => p.id === profile.id ? { ...p, pnlHighWater: risk.profitLock.peak } : p));
+    }
+  }, [isHydrated, risk.profitLock.peak, pnlHighWater, profile.id, setProfiles]);
+  const { drawdown, drawdownStatus, budget, remainingBudget, remainingStatus, totalLossUsed, totalLossStatus, haltedPct, haltedStatus, tradesStatus, profitLock, flattenNow } = risk;
+  const { dayLossLimit, totalLossLimit, perSymbolLimit, perTickerExposure, totalExposure, profitLockStart, profitLockDrawdown } = risk.limits;
+  // Which tier and clamp produced each dollar limit; only shown once tiers or clamps are in use
+  const scaled = scaleLimits(currentSettings, equity);
+  const tier = activeTier(currentSettings.equityTiers, equity);
+  const scaledNoteFor = (field: ScaledField) => hasScaling(currentSettings) ? scaledNote(scaled[field]) : undefined;
+
+  // Chips outside Safe, with the threshold that put them there
+  const triggered = [
+    { label: "Drawdown", status: drawdownStatus, reason: risk.reasons.drawdown },
+    { label: "Remaining Loss Budget", status: remainingStatus, reason: risk.reasons.remaining },
+    { label: "Halted Exposure", status: haltedStatus, reason: risk.reasons.halted },
+    { label: "Total Loss", status: totalLossStatus, reason: risk.reasons.totalLoss },
+    { label: "Flatten", status: flattenNow ? "Danger" as const : "Safe" as const, reason: risk.reasons.flatten },
+  ].filter(c => c.status !== "Safe");
+
+  // Browsers cannot pin a window on top; a small named window is the closest, and reopening reuses it
+  function openStrip() {
+    window.open("/strip", "cobra-strip", "popup,width=760,height=120");
   }
 
   // Show loading state until hydrated
@@ -164,54 +255,90 @@ export default function Page() {
     );
   }
 
+  function inputClass(field: keyof RiskSettings) {
+    const issues = validation.byField[field] ?? [];
+    return "input" + (issues.some(i => i.severity === "error") ? " input-error" : issues.length > 0 ? " input-warning" : "");
+  }
+
   function exportCfg() {
-    const basicSettings = [
-      `# DAS Risk Control Configuration`,
-      `# Generated by COBRA Risk Dashboard`,
-      `# Mode: ${mode}`,
-      ``,
-      `# Essential Risk Limits`,
-      `TotalLossLimit=${Math.round(totalLossLimit)}`,
-      `PosUnrealLossLimit=${Math.round(perSymbolLimit)}`,
-      `PosMktValueLimit=${Math.round(perTickerExposure)}`,
-      `OpenPosValueLimit=${Math.round(totalExposure)}`,
-      `ProfitLockStart=${Math.round(profitLockStart)}`,
-    ];
-
-    const advancedSettings = [
-      ``,
-      `# Additional Risk Limits`,
-      `DayLossLimit=${Math.round(dayLossLimit)}`,
-      ``,
-      `# Profit Protection`,
-      `ProfitLockDrawdown%=${Math.round(profitLockDrawdown*100)}`,
-      ``,
-      `# Trading Controls`,
-      `StopTime=${currentSettings.stopTime}`,
-      `AutoStopLoss=${currentSettings.autoStopLoss ? 1 : 0}`,
-      `DisableNewOrders=${currentSettings.disableNewOrders ? 1 : 0}`,
-      `LiquidateAllPositions=${currentSettings.liquidateAllPositions ? 1 : 0}`,
-      ``,
-      `# Advanced Controls`,
-      `MaxSharesPerPosition=${currentSettings.maxSharesPerPosition}`,
-      `MaxOrderSize=${currentSettings.maxOrderSize}`,
-      `MaxDailyTrades=${currentSettings.maxDailyTrades}`,
-      `MaxPositions=${currentSettings.maxPositions}`,
-    ];
-
-    // For presets, only include basic settings. For Custom mode, include all settings.
-    const cfg = mode === "Custom" 
-      ? [...basicSettings, ...advancedSettings].join("\n")
-      : basicSettings.join("\n");
-    const blob = new Blob([cfg], { type: "text/plain;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url; a.download = "RiskControl.cfg"; a.click();
-    URL.revokeObjectURL(url);
+    const cfg = renderCfg(profileCfgSpec(profile, presets));
+    if (cfg.text === null) return;
+    downloadText("RiskControl.cfg", cfg.text);
+    setAudit(prev => [...prev, ...stampChanges([exportChange(auditPoint.snapshot, "RiskControl.cfg")], "")]);
   }
 
+  function exportProfileCfg(p: AccountProfile) {
+    const spec = profileCfgSpec(p, presets);
+    const cfg = renderCfg(spec);
+    if (cfg.text === null) {
+      window.alert(`"${p.name}" has invalid risk settings and was not exported. Fix them in Custom Risk Settings first.`);
+      return;
+    }
+    downloadText(cfg.fileName, cfg.text);
+    const snapshot = { profileId: p.id, account: p.name, modeLabel: profileModeLabel(p, presets), settings: spec.settings, thresholds: profileThresholds(p, presets), equity: p.equity };
+    setAudit(prev => [...prev, ...stampChanges([exportChange(snapshot, cfg.fileName)], "")]);
+  }
+
+  function selectPreset(id: string) {
+    auditedUpdate({ mode: "Custom", presetId: id });
+  }
+
+  function saveCurrentAsPreset() {
+    const base = activePreset ? activePreset.name : mode === "Custom" ? "Custom" : mode;
+    const created = createPreset(uniqueName(`${base} copy`, presets), currentSettings, mode === "Custom" ? null : mode, currentThresholds);
+    setPresets(prev => [...prev, created]);
+    selectPreset(created.id);
+  }
+
+  // Accounts still pointing at a deleted preset keep its settings in their own Custom slot
+  function updatePresets(next: NamedPreset[]) {
+    auditRecorder.touch();
+    const removed = presets.filter(p => !next.some(n => n.id === p.id));
+    if (removed.length > 0) {
+      setProfiles(prev => prev.map(p => {
+        const gone = findPreset(removed, p.presetId);
+        return gone ? { ...p, customSettings: gone.settings, customThresholds: gone.thresholds, presetId: null } : p;
+      }));
+    }
+    setPresets(next);
+  }
+
+  function addProfile() {
+    const created = defaultProfile(`Account ${profiles.length + 1}`);
+    setProfiles(prev => [...prev, created]);
+    setActiveProfileId(created.id);
+  }
+
+  function importProfile(imported: AccountProfile) {
+    setProfiles(prev => [...prev, imported]);
+    setActiveProfileId(imported.id);
+  }
+
+  function closeSharedPreview(accept: boolean) {
+    if (accept && preview) importProfile(preview);
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    setShared(null);
+  }
+
+  function deleteProfile(id: string) {
+    const remaining = profiles.filter(p => p.id !== id);
+    if (remaining.length === 0) return;
+    setProfiles(remaining);
+    setJournal(prev => prev.filter(e => e.profileId !== id));
+    if (id === profile.id) setActiveProfileId(remaining[0].id);
+  }
+
+  // End of day: journal the session, roll equity forward and clear intraday inputs
+  function closeSessionOn(date: string) {
+    setJournal(prev => recordEntry(prev, closeSession(profile, evaluation, date)));
+    updateProfile({ priorEquity: equity, todaysPnL: 0, tradeCount: 0, pnlHighWater: 0 });
+  }
+
+  const lastClose = priorClose(journal, profile.id, todayKey());
+
   return (
-    <main className="mx-auto max-w-6xl space-y-6 md:space-y-8" style={{ backgroundColor: '#0a0a0a', color: '#ffffff', minHeight: '100vh', padding: '2rem 3rem' }}>
+    <>
+    <main className="print-hide mx-auto max-w-6xl space-y-6 md:space-y-8" style={{ backgroundColor: '#0a0a0a', color: '#ffffff', minHeight: '100vh', padding: '2rem 3rem' }}>
       <header className="card p-4 sm:p-6" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
         <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', flexDirection: 'row' }}>
                   <img 
@@ -224,14 +351,46 @@ export default function Page() {
             <h1 className="text-xl sm:text-2xl font-semibold tracking-tight">Cobra Risk Dashboard</h1>
             <p className="text-gray-400 text-sm sm:text-base">v1.0 – October 2025</p>
           </div>
+          <button
+            onClick={openStrip}
+            className="text-sm text-blue-400 hover:text-blue-300 underline"
+            style={{ order: 3, marginLeft: 'auto' }}
+            title="Open the compact ticker strip in a small window to keep beside DAS"
+          >
+            Pop Out Strip
+          </button>
         </div>
       </header>
 
+      {loadReport && loadReport.issues.length > 0 && showLoadReport && (
+        <StorageRecovery report={loadReport} onDismiss={() => setShowLoadReport(false)} />
+      )}
+
+      {auditRecorder.pending && <ReasonPrompt pending={auditRecorder.pending} onApprove={auditRecorder.approve} onRevert={revertAudited} />}
+
+      {syncConflicts.length > 0 && <SyncNotice conflicts={syncConflicts} onDismiss={() => setSyncConflicts([])} />}
+
+      {shared && <SharedPreview result={shared} onAccept={() => closeSharedPreview(true)} onDismiss={() => closeSharedPreview(false)} />}
+
+      <fieldset disabled={preview !== null} className="space-y-6 md:space-y-8 min-w-0">
+      <ProfileBar
+        profiles={profiles}
+        activeId={profile.id}
+        onSelect={setActiveProfileId}
+        onRename={(name) => updateProfile({ name })}
+        onAdd={addProfile}
+        onDelete={deleteProfile}
+      />
+
+      <AlertCenter alerts={alerts} prefs={alertPrefs} onPrefsChange={setAlertPrefs} />
+
       <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <h2 className="text-lg font-semibold">How to Use</h2>
           <button 
             onClick={exportCfg} 
+            disabled={validation.hasErrors}
+            title={validation.hasErrors ? "Fix the errors in Custom Risk Settings before exporting" : undefined}
             className="btn btn-primary px-6 py-3 text-base font-semibold rounded-lg shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105"
             style={{ 
               backgroundColor: '#3b82f6', 
@@ -248,7 +407,9 @@ export default function Page() {
           <li>If using <b>Custom</b> mode, adjust all risk settings to your preferences using the comprehensive controls below.</li>
           <li>Watch the color-coded <b>Status</b> chips (🟢🟡🔴) and the <b>Flatten</b> recommendation for real-time risk assessment.</li>
           <li>Click <b>Export RiskControl.cfg</b> to download a complete DAS configuration file with all your settings.</li>
-          <li>All inputs and custom settings persist in your browser (local only - no data leaves your device).</li>
+          <li>Running several accounts? Add one per account in the <b>Account</b> bar; the <b>Firm Roll-up</b> shows them side by side and exports a config for each.</li>
+          <li>Already have a tuned config? Use <b>Import RiskControl.cfg</b> at the bottom to load it into Custom mode.</li>
+          <li>All inputs and custom settings persist in your browser. If the server has a snapshot feed or DAS connection set up, live account values arrive through it.</li>
         </ol>
         <div className="mt-4 pt-3 border-t border-gray-600">
           <p className="text-sm text-gray-400">
@@ -268,6 +429,8 @@ export default function Page() {
         </div>
       </section>
 
+      <ProfileShare profile={profile} presets={presets} onImport={importProfile} />
+
       <section className="card p-4 sm:p-6" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
         <h2 className="text-lg font-semibold mb-4">Risk Mode Comparison</h2>
         <div className="gap-4" style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '1rem' }}>
@@ -366,8 +529,8 @@ export default function Page() {
               border: '2px solid',
               cursor: 'pointer',
               transition: 'all 0.2s',
-              borderColor: mode === "Custom" ? '#3b82f6' : '#4b5563',
-              backgroundColor: mode === "Custom" ? 'rgba(30, 58, 138, 0.4)' : 'rgba(30, 64, 175, 0.2)'
+              borderColor: mode === "Custom" && !activePreset ? '#3b82f6' : '#4b5563',
+              backgroundColor: mode === "Custom" && !activePreset ? 'rgba(30, 58, 138, 0.4)' : 'rgba(30, 64, 175, 0.2)'
             }}
             onClick={() => setMode("Custom")}
           >
@@ -379,7 +542,7 @@ export default function Page() {
               >
                 Custom
               </button>
-              {mode === "Custom" && <span className="text-blue-400 text-xs">✓ Selected</span>}
+              {mode === "Custom" && !activePreset && <span className="text-blue-400 text-xs">✓ Selected</span>}
             </div>
             <div 
               className="text-xs font-medium px-2 py-1 rounded"
@@ -393,6 +556,13 @@ export default function Page() {
             </div>
           </div>
         </div>
+        <PresetLibrary
+          presets={presets}
+          selectedId={activePreset?.id ?? null}
+          onSelect={selectPreset}
+          onChange={updatePresets}
+          onSaveCurrent={saveCurrentAsPreset}
+        />
       </section>
 
       <section style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '1.5rem' }} className="grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
@@ -400,6 +570,8 @@ export default function Page() {
           <h2 className="text-xl font-bold mb-6 text-center">📊 Inputs</h2>
           
           <div className="space-y-6">
+            <FeedStatus feed={feed} enabled={applyFeed} onToggle={setApplyFeed} />
+
             {/* Equity Section */}
             <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
               <div className="flex items-center space-x-2 mb-4">
@@ -432,6 +604,14 @@ export default function Page() {
                     onChange={(e)=>setPriorEquity(Number(e.target.value))} 
                   />
                   {validationErrors.priorEquity && <p className="text-red-400 text-xs mt-1">{validationErrors.priorEquity}</p>}
+                  {lastClose && (lastClose.equity === priorEquity ? (
+                    <p className="text-gray-400 text-xs mt-1">From journal: closed {lastClose.date}</p>
+                  ) : (
+                    <p className="text-gray-400 text-xs mt-1">
+                      Journal close {lastClose.date}: {dollars(lastClose.equity)}{" "}
+                      <button onClick={() => setPriorEquity(lastClose.equity)} className="text-blue-400 hover:text-blue-300 underline">Use</button>
+                    </p>
+                  ))}
                 </div>
               </div>
             </div>
@@ -454,6 +634,12 @@ export default function Page() {
                     value={todaysPnL} 
                     onChange={(e)=>setTodaysPnL(Number(e.target.value))} 
                   />
+                  {profile.reportedUnrealizedPnL !== undefined && (
+                    <p className="text-gray-400 text-xs mt-1">
+                      Unrealized P&L from feed: {dollars(profile.reportedUnrealizedPnL)} (used instead of the position ledger){" "}
+                      <button onClick={() => updateProfile({ reportedUnrealizedPnL: undefined })} className="text-blue-400 hover:text-blue-300 underline">Clear</button>
+                    </p>
+                  )}
                 </div>
                 <div className="space-y-2">
                   <label className="block text-sm font-medium text-gray-300">
@@ -468,6 +654,32 @@ export default function Page() {
                   />
                   {validationErrors.haltedExposure && <p className="text-red-400 text-xs mt-1">{validationErrors.haltedExposure}</p>}
                 </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-300">
+                    Intraday P&L High-Water ($)
+                  </label>
+                  <input 
+                    className="w-full px-3 py-2 rounded-md border border-gray-600 bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500" 
+                    type="number" 
+                    placeholder="0"
+                    value={pnlHighWater} 
+                    onChange={(e)=>setPnlHighWater(Number(e.target.value))} 
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-300">
+                    Trades Today
+                  </label>
+                  <input 
+                    className={`w-full px-3 py-2 rounded-md border bg-gray-700 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 ${validationErrors.tradeCount ? 'border-red-500' : 'border-gray-600'}`} 
+                    type="number" 
+                    min="0"
+                    placeholder="0"
+                    value={tradeCount} 
+                    onChange={(e)=>setTradeCount(Number(e.target.value))} 
+                  />
+                  {validationErrors.tradeCount && <p className="text-red-400 text-xs mt-1">{validationErrors.tradeCount}</p>}
+                </div>
               </div>
             </div>
           </div>
@@ -482,44 +694,76 @@ export default function Page() {
           )}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 items-center">
             <div>Drawdown % vs Prior</div>
-            <div className={"rounded-full px-2.5 py-0.5 text-xs font-medium text-center " + statusColor(drawdownStatus)}>
-              {statusIcon(drawdownStatus)} {pct(drawdown,1)} · {drawdownStatus}
-            </div>
+            <StatusChip status={drawdownStatus} title={risk.reasons.drawdown}>{pct(drawdown,1)} · {drawdownStatus}</StatusChip>
 
-            <div>Remaining Loss Budget (today)</div>
-            <div className={"rounded-full px-2.5 py-0.5 text-xs font-medium text-center " + statusColor(remainingStatus)}>
-              {statusIcon(remainingStatus)} {dollars(remainingBudget)} · {remainingStatus}
+            <div>
+              <div>Remaining Loss Budget (today)</div>
+              <div className="text-xs text-gray-400">
+                {budget.source === null ? "No loss limit set"
+                  : `${dollars(budget.used)} (${pct(budget.usedPct, 0)}) of ${dollars(budget.limit)} used${budget.source === "TotalLossLimit" ? " · from TotalLossLimit" : ""}`}
+              </div>
+              <div className="text-xs text-gray-400">
+                Realized loss {dollars(budget.realizedLoss)} · Unrealized loss {dollars(budget.unrealizedLoss)} · Profit {dollars(budget.profit)}
+              </div>
             </div>
+            <StatusChip status={remainingStatus} title={risk.reasons.remaining}>{dollars(remainingBudget)} left · {remainingStatus}</StatusChip>
 
             <div>Halted Exposure %</div>
-            <div className={"rounded-full px-2.5 py-0.5 text-xs font-medium text-center " + statusColor(haltedStatus)}>
-              {statusIcon(haltedStatus)} {pct(haltedPct,0)} · {haltedStatus}
-            </div>
+            <StatusChip status={haltedStatus} title={risk.reasons.halted}>{pct(haltedPct,0)} · {haltedStatus}</StatusChip>
 
             <div>Total Loss Used</div>
-            <div className={"rounded-full px-2.5 py-0.5 text-xs font-medium text-center " + (Math.abs(totalLossUsed) > Math.abs(totalLossLimit) * 0.8 ? "bg-danger" : Math.abs(totalLossUsed) > Math.abs(totalLossLimit) * 0.5 ? "bg-caution" : "bg-safe")}>
-              {statusIcon(Math.abs(totalLossUsed) > Math.abs(totalLossLimit) * 0.8 ? "Danger" : Math.abs(totalLossUsed) > Math.abs(totalLossLimit) * 0.5 ? "Caution" : "Safe")} {dollars(totalLossUsed)} · {Math.abs(totalLossRemaining) > Math.abs(totalLossLimit) * 0.2 ? "Safe" : "Danger"}
-            </div>
+            <StatusChip status={totalLossStatus} title={risk.reasons.totalLoss}>{dollars(totalLossUsed)} · {totalLossStatus}</StatusChip>
+
+            <div>Daily Trades</div>
+            <StatusChip status={tradesStatus} title={risk.reasons.trades}>{tradeCount} · {tradesStatus}</StatusChip>
+
+            <div>Profit Lock</div>
+            <StatusChip status={profitLock.status} title={risk.reasons.profitLock}>
+              {profitLock.triggered ? `Triggered · floor ${dollars(profitLock.floor)}`
+                : profitLock.armed ? `${dollars(profitLock.room)} room · floor ${dollars(profitLock.floor)}`
+                : "Not armed"} · {profitLock.status}
+            </StatusChip>
+
+            <div>Stop Time</div>
+            <StatusChip status={session.stopStatus} title={session.reason}>
+              {session.secondsToCutoff !== null && session.secondsToCutoff > 0 ? formatCountdown(session.secondsToCutoff) : session.cutoff ? "Passed" : "—"} · {session.stopStatus}
+            </StatusChip>
+
+            <div>Open Exposure</div>
+            <StatusChip status={ledger.exposureStatus}>{dollars(ledger.totalExposure)} · {ledger.exposureStatus}</StatusChip>
 
             <div>Flatten Recommendation</div>
-            <div className={flattenNow ? "text-danger font-semibold" : "text-safe font-semibold"}>
+            <div title={risk.reasons.flatten} className={flattenNow ? "text-danger font-semibold" : "text-safe font-semibold"}>
               {flattenNow ? "⚠ Flatten Now – High Risk" : "OK – Within Risk Limits"}
             </div>
           </div>
+          {triggered.length > 0 && (
+            <ul className="text-xs text-gray-300 space-y-1 border-t border-gray-600 pt-3">
+              {triggered.map(({ label, status, reason }) => (
+                <li key={label}><span className={status === "Danger" ? "text-danger" : "text-caution"}>{label}:</span> {reason}</li>
+              ))}
+            </ul>
+          )}
         </div>
 
         <div className="card p-8 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
         <h2 className="text-lg font-semibold">Calculated Limits</h2>
+          {hasScaling(currentSettings) && (
+            <p className="text-xs text-gray-400">
+              {tier ? `${tierLabel(tier)} equity tier applies at ${dollars(equity)}` : `No equity tier reached at ${dollars(equity)}; flat percentages apply`}
+              {Object.keys(currentSettings.dollarClamps).length > 0 && " · dollar clamps set"}
+            </p>
+          )}
           <div className="grid grid-cols-1 gap-3 sm:gap-4">
             {mode === "Custom" ? (
               // Show all settings for Custom mode
               <>
-          <Metric label="Daily Realized Loss (DayLossLimit)" value={dollars(dayLossLimit)} />
-          <Metric label="Total Loss (TotalLossLimit)" value={dollars(totalLossLimit)} />
-          <Metric label="Per-Symbol Unrealized (PosUnrealLossLimit)" value={dollars(perSymbolLimit)} />
-          <Metric label="Max Exposure / Ticker (PosMktValueLimit)" value={dollars(perTickerExposure)} />
-          <Metric label="Total Exposure (OpenPosValueLimit)" value={dollars(totalExposure)} />
-          <Metric label="Profit Lock Trigger (ProfitLockStart)" value={dollars(profitLockStart)} />
+          <Metric label="Daily Realized Loss (DayLossLimit)" value={dollars(dayLossLimit)} note={scaledNoteFor("dailyLossLimit")} />
+          <Metric label="Total Loss (TotalLossLimit)" value={dollars(totalLossLimit)} note={scaledNoteFor("totalLossLimit")} />
+          <Metric label="Per-Symbol Unrealized (PosUnrealLossLimit)" value={dollars(perSymbolLimit)} note={scaledNoteFor("perSymbolLossLimit")} />
+          <Metric label="Max Exposure / Ticker (PosMktValueLimit)" value={dollars(perTickerExposure)} note={scaledNoteFor("perSymbolExposureLimit")} />
+          <Metric label="Total Exposure (OpenPosValueLimit)" value={dollars(totalExposure)} note={scaledNoteFor("totalExposureLimit")} />
+          <Metric label="Profit Lock Trigger (ProfitLockStart)" value={dollars(profitLockStart)} note={scaledNoteFor("profitLockStart")} />
           <Metric label="Profit Lock Drawdown %" value={pct(profitLockDrawdown,0)} />
                 <Metric label="Trading Cutoff Time (ET)" value={currentSettings.stopTime} />
                 <Metric label="Max Shares Per Position" value={currentSettings.maxSharesPerPosition.toLocaleString()} />
@@ -530,32 +774,48 @@ export default function Page() {
             ) : (
               // Show only essential settings for presets
               <>
-                <Metric label="Total Loss (TotalLossLimit)" value={dollars(totalLossLimit)} />
-                <Metric label="Per-Symbol Unrealized (PosUnrealLossLimit)" value={dollars(perSymbolLimit)} />
+                <Metric label="Total Loss (TotalLossLimit)" value={dollars(totalLossLimit)} note={scaledNoteFor("totalLossLimit")} />
+                <Metric label="Per-Symbol Unrealized (PosUnrealLossLimit)" value={dollars(perSymbolLimit)} note={scaledNoteFor("perSymbolLossLimit")} />
               </>
             )}
           </div>
         </div>
       </section>
 
+      <ScenarioSimulator key={profile.id} profile={profile} presets={presets} live={evaluation} />
+
+      <SessionClock now={now} session={session} holidays={holidays} onHolidaysChange={setHolidays} />
+
+      <PositionLedger positions={positions} ledger={ledger} onChange={setPositions} />
+
+      <PositionSizer settings={currentSettings} equity={equity} todaysPnL={todaysPnL} unrealizedPnL={unrealizedPnL} ledger={ledger} />
+
       {mode === "Custom" && (
         <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
           <div className="flex justify-between items-center">
-            <h2 className="text-lg font-semibold">Custom Risk Settings</h2>
+            <h2 className="text-lg font-semibold">Custom Risk Settings{activePreset ? ` · ${activePreset.name}` : ""}</h2>
             <button 
-              onClick={() => setCustomSettings(PRESET_MAP.Custom)}
+              onClick={() => { setCustomSettings(PRESET_MAP.Custom); setCustomThresholds(THRESHOLD_MAP.Custom); }}
               className="text-sm text-blue-400 hover:text-blue-300 underline"
             >
               Reset to Defaults
             </button>
           </div>
+          {validation.issues.length > 0 && (
+            <div className={(validation.hasErrors ? "bg-red-900/20 border-red-500/50" : "bg-yellow-900/20 border-yellow-500/50") + " border rounded-lg p-3"}>
+              <p className={(validation.hasErrors ? "text-red-400" : "text-yellow-400") + " text-sm"}>
+                ⚠️ {validation.issues.filter(i => i.severity === "error").length} error(s), {validation.issues.filter(i => i.severity === "warning").length} warning(s) in the highlighted fields
+                {validation.hasErrors && " – export is blocked until the errors are fixed"}
+              </p>
+            </div>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
             <div>
               <Tooltip content="Maximum daily realized loss allowed. When reached, new orders are disabled but existing positions remain intact.">
                 <label className="text-sm text-gray-300 cursor-help">Daily Loss Limit (%) <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("dailyLossLimit")} 
                 type="number" 
                 step="0.1"
                 min="0"
@@ -563,13 +823,14 @@ export default function Page() {
                 value={customSettings.dailyLossLimit * 100} 
                 onChange={(e)=>setCustomSettings({...customSettings, dailyLossLimit: Number(e.target.value) / 100})} 
               />
+              <FieldIssues issues={validation.byField.dailyLossLimit} />
             </div>
             <div>
               <Tooltip content="Maximum total loss (realized + unrealized) allowed. When reached, all positions are liquidated and new orders are disabled.">
                 <label className="text-sm text-gray-300 cursor-help">Total Loss Limit (%) <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("totalLossLimit")} 
                 type="number" 
                 step="0.1"
                 min="0"
@@ -577,13 +838,14 @@ export default function Page() {
                 value={customSettings.totalLossLimit * 100} 
                 onChange={(e)=>setCustomSettings({...customSettings, totalLossLimit: Number(e.target.value) / 100})} 
               />
+              <FieldIssues issues={validation.byField.totalLossLimit} />
             </div>
             <div>
               <Tooltip content="Maximum unrealized loss allowed per individual symbol. When reached, only that specific position is liquidated.">
                 <label className="text-sm text-gray-300 cursor-help">Per-Symbol Loss Limit (%) <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("perSymbolLossLimit")} 
                 type="number" 
                 step="0.1"
                 min="0"
@@ -591,13 +853,14 @@ export default function Page() {
                 value={customSettings.perSymbolLossLimit * 100} 
                 onChange={(e)=>setCustomSettings({...customSettings, perSymbolLossLimit: Number(e.target.value) / 100})} 
               />
+              <FieldIssues issues={validation.byField.perSymbolLossLimit} />
             </div>
             <div>
               <Tooltip content="Maximum market value exposure allowed per individual symbol. Prevents over-concentration in a single position.">
                 <label className="text-sm text-gray-300 cursor-help">Per-Symbol Exposure Limit (%) <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("perSymbolExposureLimit")} 
                 type="number" 
                 step="0.1"
                 min="0"
@@ -605,13 +868,14 @@ export default function Page() {
                 value={customSettings.perSymbolExposureLimit * 100} 
                 onChange={(e)=>setCustomSettings({...customSettings, perSymbolExposureLimit: Number(e.target.value) / 100})} 
               />
+              <FieldIssues issues={validation.byField.perSymbolExposureLimit} />
             </div>
             <div>
               <Tooltip content="Maximum total market value exposure across all positions. Caps gross leverage during active trading sessions.">
                 <label className="text-sm text-gray-300 cursor-help">Total Exposure Limit (%) <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("totalExposureLimit")} 
                 type="number" 
                 step="0.1"
                 min="0"
@@ -619,13 +883,14 @@ export default function Page() {
                 value={customSettings.totalExposureLimit * 100} 
                 onChange={(e)=>setCustomSettings({...customSettings, totalExposureLimit: Number(e.target.value) / 100})} 
               />
+              <FieldIssues issues={validation.byField.totalExposureLimit} />
             </div>
             <div>
               <Tooltip content="Profit level at which profit protection is activated. Once reached, positions are protected from giving back profits beyond the drawdown limit.">
                 <label className="text-sm text-gray-300 cursor-help">Profit Lock Start (%) <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("profitLockStart")} 
                 type="number" 
                 step="0.1"
                 min="0"
@@ -633,13 +898,14 @@ export default function Page() {
                 value={customSettings.profitLockStart * 100} 
                 onChange={(e)=>setCustomSettings({...customSettings, profitLockStart: Number(e.target.value) / 100})} 
               />
+              <FieldIssues issues={validation.byField.profitLockStart} />
             </div>
             <div>
               <Tooltip content="Maximum drawdown allowed from peak profits before profit protection triggers liquidation.">
                 <label className="text-sm text-gray-300 cursor-help">Profit Lock Drawdown (%) <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("profitLockDrawdown")} 
                 type="number" 
                 step="0.1"
                 min="0"
@@ -647,65 +913,71 @@ export default function Page() {
                 value={customSettings.profitLockDrawdown * 100} 
                 onChange={(e)=>setCustomSettings({...customSettings, profitLockDrawdown: Number(e.target.value) / 100})} 
               />
+              <FieldIssues issues={validation.byField.profitLockDrawdown} />
             </div>
             <div>
               <Tooltip content="Time of day when trading is automatically stopped. All positions are closed and new orders are disabled at this time.">
                 <label className="text-sm text-gray-300 cursor-help">Stop Time <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("stopTime")} 
                 type="time" 
                 value={customSettings.stopTime} 
                 onChange={(e)=>setCustomSettings({...customSettings, stopTime: e.target.value})} 
               />
+              <FieldIssues issues={validation.byField.stopTime} />
             </div>
             <div>
               <Tooltip content="Maximum number of shares allowed in any single position. Orders exceeding this limit will be rejected.">
                 <label className="text-sm text-gray-300 cursor-help">Max Shares Per Position <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("maxSharesPerPosition")} 
                 type="number" 
                 min="0"
                 value={customSettings.maxSharesPerPosition} 
                 onChange={(e)=>setCustomSettings({...customSettings, maxSharesPerPosition: Number(e.target.value)})} 
               />
+              <FieldIssues issues={validation.byField.maxSharesPerPosition} />
             </div>
             <div>
               <Tooltip content="Maximum order size allowed per individual order. Prevents oversized trades that could cause excessive risk.">
                 <label className="text-sm text-gray-300 cursor-help">Max Order Size <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("maxOrderSize")} 
                 type="number" 
                 min="0"
                 value={customSettings.maxOrderSize} 
                 onChange={(e)=>setCustomSettings({...customSettings, maxOrderSize: Number(e.target.value)})} 
               />
+              <FieldIssues issues={validation.byField.maxOrderSize} />
             </div>
             <div>
               <Tooltip content="Maximum number of trades allowed per day. Helps prevent overtrading and excessive commission costs.">
                 <label className="text-sm text-gray-300 cursor-help">Max Daily Trades <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("maxDailyTrades")} 
                 type="number" 
                 min="0"
                 value={customSettings.maxDailyTrades} 
                 onChange={(e)=>setCustomSettings({...customSettings, maxDailyTrades: Number(e.target.value)})} 
               />
+              <FieldIssues issues={validation.byField.maxDailyTrades} />
             </div>
             <div>
               <Tooltip content="Maximum number of concurrent positions allowed. Helps manage portfolio complexity and risk concentration.">
                 <label className="text-sm text-gray-300 cursor-help">Max Positions <span className="text-blue-400">ℹ️</span></label>
               </Tooltip>
               <input 
-                className="input" 
+                className={inputClass("maxPositions")} 
                 type="number" 
                 min="0"
                 value={customSettings.maxPositions} 
                 onChange={(e)=>setCustomSettings({...customSettings, maxPositions: Number(e.target.value)})} 
               />
+              <FieldIssues issues={validation.byField.maxPositions} />
             </div>
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-4 border-t border-gray-600">
@@ -743,23 +1015,59 @@ export default function Page() {
               </label>
             </Tooltip>
           </div>
+          <EquityScaling settings={customSettings} equity={equity} issues={validation.issues} onChange={setCustomSettings} />
+          <ThresholdSettings thresholds={customThresholds} onChange={setCustomThresholds} />
       </section>
       )}
 
+      <SettingsDiff current={currentSettings} currentLabel={activePreset?.name ?? mode} equity={equity} presets={presets} />
+
+      <SessionJournal
+        entries={entriesFor(journal, profile.id)}
+        onClose={closeSessionOn}
+        onDelete={(id) => setJournal(prev => prev.filter(e => e.id !== id))}
+      />
+
+      <AuditLog entries={audit} profiles={profiles} prefs={auditPrefs} onPrefsChange={setAuditPrefs} />
 
+      <FirmRollup profiles={profiles} presets={presets} activeId={profile.id} onSelect={setActiveProfileId} onExport={exportProfileCfg} />
+
+      <DasCsvImport onApply={(imported) => {
+        if (imported.hasRealized) setTodaysPnL(imported.realizedPnL);
+        setPositions(imported.positions);
+        if (imported.kind === "trades") setTradeCount(imported.tradeCount);
+        if (imported.pnlHighWater !== null) setPnlHighWater(imported.pnlHighWater);
+      }} />
+
+      <CfgImport equity={equity} onApply={(settings) => auditedUpdate({ mode: "Custom", presetId: null, customSettings: settings })} />
+      </fieldset>
 
       <footer className="text-center text-xs text-gray-400 pb-8">
-        © {new Date().getFullYear()} Cobra Risk Dashboard · Dark theme · No data leaves your browser.
+        © {new Date().getFullYear()} Cobra Risk Dashboard · Dark theme · Settings stay in your browser; live values arrive through this app&apos;s server.
       </footer>
     </main>
+    <RiskSheet profile={profile} modeLabel={modeLabel} evaluation={evaluation} />
+    </>
+  );
+}
+
+function FieldIssues({ issues }: { issues?: SettingsIssue[] }) {
+  if (!issues || issues.length === 0) return null;
+  return (
+    <>
+      {issues.map((issue, i) => (
+        <p key={i} className={(issue.severity === "error" ? "text-red-400" : "text-yellow-400") + " text-xs mt-1"}>{issue.message}</p>
+      ))}
+    </>
   );
 }
 
-function Metric({ label, value }: { label: string; value: string; }) {
+function Metric({ label, value, note }: { label: string; value: string; note?: string; }) {
   return (
     <div className="p-3 sm:p-4 rounded-xl bg-gray-700 border border-gray-600" style={{ backgroundColor: '#374151', borderColor: '#4b5563', color: '#ffffff' }}>
       <div className="text-xs text-gray-400" style={{ color: '#9ca3af' }}>{label}</div>
       <div className="text-base sm:text-lg font-semibold" style={{ color: '#ffffff' }}>{value}</div>
+      {note && <div className="text-xs text-gray-400" style={{ color: '#9ca3af' }}>{note}</div>}
     </div>
   );
 }
@@ -0,0 +1,73 @@
+"use client";
+import { useMemo, useState } from "react";
+import { dollars, pct } from "@/lib/calc";
+import { evaluateProfile, profileModeLabel } from "@/lib/profiles";
+import { cn } from "@/lib/utils";
+import { StatusChip } from "@/components/status-chip";
+import { usePersistedState } from "@/components/use-persisted-state";
+
+/**
+ * Ticker strip: the few numbers a trader watches all day, small enough to sit
+ * beside DAS montage windows. Reads the same state document as the dashboard
+ * and follows its edits live through cross-tab sync; it opens the document
+ * read-only, so it never writes anything back.
+ */
+export default function StripPage() {
+  const [state, , isHydrated] = usePersistedState({ readOnly: true });
+  const { profiles, activeProfileId, presets } = state;
+  // The account shown is chosen here, so the strip can watch one account while the dashboard edits another
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [vertical, setVertical] = useState(false);
+
+  const profile = profiles.find(p => p.id === (profileId ?? activeProfileId)) ?? profiles[0];
+  const evaluation = useMemo(() => profile ? evaluateProfile(profile, presets) : null, [profile, presets]);
+
+  if (!isHydrated || !profile || !evaluation) {
+    return <main className="p-2 text-sm text-gray-400">Loading...</main>;
+  }
+
+  const { risk } = evaluation;
+  const figures = [
+    { label: `Budget Left · ${pct(risk.budget.usedPct, 0)} used`, value: dollars(risk.remainingBudget), status: risk.remainingStatus, title: risk.reasons.remaining },
+    { label: "Total Loss Left", value: dollars(risk.totalLossRemaining), status: risk.totalLossStatus, title: risk.reasons.totalLoss },
+    { label: "Halted", value: pct(risk.haltedPct, 0), status: risk.haltedStatus, title: risk.reasons.halted },
+  ];
+
+  return (
+    <main className={cn("p-2 gap-2 flex", vertical ? "flex-col" : "flex-row flex-wrap items-stretch")} style={{ color: '#ffffff' }}>
+      <div className={cn("flex gap-2 items-center", vertical ? "justify-between" : "flex-col justify-center")}>
+        <select
+          value={profile.id}
+          onChange={e => setProfileId(e.target.value)}
+          className="rounded px-1 py-0.5 text-xs bg-gray-800 border border-gray-600"
+          title={profileModeLabel(profile, presets)}
+        >
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button onClick={() => setVertical(v => !v)} className="text-xs text-blue-400 hover:text-blue-300 underline">
+          {vertical ? "Horizontal" : "Vertical"}
+        </button>
+      </div>
+
+      {figures.map(f => (
+        <div key={f.label} className="card px-3 py-1.5 flex flex-col gap-1" title={f.title} style={{ backgroundColor: '#1f2937', borderColor: '#374151' }}>
+          <div className="text-[10px] uppercase tracking-wide text-gray-400">{f.label}</div>
+          <div className="text-lg font-semibold tabular-nums">{f.value}</div>
+        </div>
+      ))}
+
+      <div className={cn("flex gap-1 justify-center", vertical ? "flex-row flex-wrap" : "flex-col")}>
+        <StatusChip status={risk.drawdownStatus} title={risk.reasons.drawdown}>Drawdown {pct(risk.drawdown, 1)}</StatusChip>
+        <StatusChip status={risk.remainingStatus} title={risk.reasons.remaining}>Budget · {risk.remainingStatus}</StatusChip>
+        <StatusChip status={risk.haltedStatus} title={risk.reasons.halted}>Halted · {risk.haltedStatus}</StatusChip>
+      </div>
+
+      <div
+        title={risk.reasons.flatten}
+        className={cn("rounded-lg px-4 py-2 flex items-center justify-center text-center font-bold", vertical ? "text-xl" : "flex-1 text-2xl", risk.flattenNow ? "bg-danger" : "bg-safe")}
+      >
+        {risk.flattenNow ? "⚠ FLATTEN NOW" : "OK"}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { detectCrossings, levelsOf, toEvent, type AlertEvent, type AlertLevel, type AlertPrefs, type AlertSignal } from "@/lib/alerts";
+import { type Status } from "@/lib/risk";
+import { StatusChip } from "@/components/status-chip";
+
+function notify(event: AlertEvent) {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") return;
+  new Notification(`${event.level}: ${event.label}`, { body: event.detail, tag: `cobra-${event.key}` });
+}
+
+// Short synthesized cue so no audio asset is needed: one tone for Caution, two for Danger
+function playCue(level: AlertLevel) {
+  const Ctx = typeof window !== "undefined" ? (window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext) : undefined;
+  if (!Ctx) return;
+  const ctx = new Ctx();
+  const beeps = level === "Danger" ? [0, 0.25] : [0];
+  beeps.forEach(offset => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.value = level === "Danger" ? 880 : 660;
+    gain.gain.setValueAtTime(0.2, ctx.currentTime + offset);
+    gain.gain.exponentialRampToValueAtTime(0.001, ctx.currentTime + offset + 0.2);
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(ctx.currentTime + offset);
+    osc.stop(ctx.currentTime + offset + 0.2);
+  });
+  setTimeout(() => ctx.close(), 1000);
+}
+
+/**
+ * Watch a set of status signals and fire when any of them crosses up into
+ * Caution or Danger. `scopeId` identifies whose statuses these are: switching
+ * scope (e.g. to another account) re-baselines without firing.
+ */
+export function useRiskAlerts(scopeId: string, signals: AlertSignal[], prefs: AlertPrefs, enabled = true) {
+  const [log, setLog] = useState<AlertEvent[]>([]);
+  const [snoozedUntil, setSnoozedUntil] = useState<Record<string, number>>({});
+  const previous = useRef<{ scope: string; levels: Record<string, Status> } | null>(null);
+  const latest = useRef({ signals, prefs, snoozedUntil });
+  latest.current = { signals, prefs, snoozedUntil };
+
+  const signature = signals.map(s => `${s.key}:${s.status}`).join("|");
+
+  useEffect(() => {
+    if (!enabled) return;
+    const { signals, prefs, snoozedUntil } = latest.current;
+    const prev = previous.current;
+    previous.current = { scope: scopeId, levels: levelsOf(signals) };
+    if (prev && prev.scope !== scopeId) return;
+
+    const now = Date.now();
+    const events = detectCrossings(prev?.levels ?? {}, signals)
+      .map(s => toEvent(s, now, (snoozedUntil[s.key] ?? 0) > now));
+    if (events.length === 0) return;
+
+    setLog(current => [...events, ...current]);
+    const audible = events.filter(e => !e.snoozed);
+    if (prefs.desktop) audible.forEach(notify);
+    if (prefs.sound && audible.length > 0) {
+      playCue(audible.some(e => e.level === "Danger") ? "Danger" : "Caution");
+    }
+  }, [signature, scopeId, enabled]);
+
+  const acknowledge = useCallback((id: string) => {
+    setLog(current => current.map(e => e.id === id ? { ...e, acknowledged: true } : e));
+  }, []);
+
+  const acknowledgeAll = useCallback(() => {
+    setLog(current => current.map(e => ({ ...e, acknowledged: true })));
+  }, []);
+
+  const snooze = useCallback((key: string, minutes: number) => {
+    setSnoozedUntil(current => ({ ...current, [key]: Date.now() + minutes * 60_000 }));
+    setLog(current => current.map(e => e.key === key ? { ...e, acknowledged: true } : e));
+  }, []);
+
+  const clear = useCallback(() => setLog([]), []);
+
+  return { log, snoozedUntil, acknowledge, acknowledgeAll, snooze, clear };
+}
+
+export function AlertCenter({ alerts, prefs, onPrefsChange }: {
+  alerts: ReturnType<typeof useRiskAlerts>;
+  prefs: AlertPrefs;
+  onPrefsChange: (prefs: AlertPrefs) => void;
+}) {
+  const { log, snoozedUntil, acknowledge, acknowledgeAll, snooze, clear } = alerts;
+  const [permission, setPermission] = useState<string>("default");
+  const active = log.filter(e => !e.acknowledged && !e.snoozed);
+  const now = Date.now();
+
+  useEffect(() => {
+    setPermission(typeof Notification === "undefined" ? "unsupported" : Notification.permission);
+  }, []);
+
+  async function requestPermission() {
+    if (typeof Notification === "undefined") return;
+    setPermission(await Notification.requestPermission());
+  }
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Alerts {active.length > 0 && <span className="text-danger">({active.length})</span>}</h2>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={prefs.desktop} onChange={(e) => onPrefsChange({ ...prefs, desktop: e.target.checked })} />
+            Desktop
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={prefs.sound} onChange={(e) => onPrefsChange({ ...prefs, sound: e.target.checked })} />
+            Sound
+          </label>
+          <label className="flex items-center gap-2">
+            Snooze
+            <input className="input" style={{ width: '4.5rem', padding: '0.25rem 0.5rem' }} type="number" min="1" value={prefs.snoozeMinutes}
+              onChange={(e) => onPrefsChange({ ...prefs, snoozeMinutes: Math.max(1, Number(e.target.value)) })} />
+            min
+          </label>
+          {prefs.desktop && permission === "default" && (
+            <button onClick={requestPermission} className="text-blue-400 hover:text-blue-300 underline">Allow notifications</button>
+          )}
+          {prefs.desktop && permission === "denied" && <span className="text-caution text-xs">Notifications blocked by the browser</span>}
+        </div>
+      </div>
+
+      {active.length > 0 && (
+        <div className="space-y-2">
+          {active.map(e => (
+            <div key={e.id} className={(e.level === "Danger" ? "bg-red-900/30 border-red-500/50" : "bg-yellow-900/30 border-yellow-500/50") + " border rounded-lg p-3 flex flex-col sm:flex-row sm:items-center gap-3"}>
+              <StatusChip status={e.level}>{e.label}</StatusChip>
+              <span className="text-sm text-gray-300 flex-1">{e.detail}</span>
+              <div className="flex items-center gap-3 text-sm">
+                <button onClick={() => acknowledge(e.id)} className="text-blue-400 hover:text-blue-300 underline">Acknowledge</button>
+                <button onClick={() => snooze(e.key, prefs.snoozeMinutes)} className="text-blue-400 hover:text-blue-300 underline">Snooze {prefs.snoozeMinutes}m</button>
+              </div>
+            </div>
+          ))}
+          {active.length > 1 && (
+            <button onClick={acknowledgeAll} className="text-sm text-blue-400 hover:text-blue-300 underline">Acknowledge all</button>
+          )}
+        </div>
+      )}
+
+      <div className="border-t border-gray-600 pt-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-300">This Session</h3>
+          {log.length > 0 && <button onClick={clear} className="text-xs text-blue-400 hover:text-blue-300 underline">Clear log</button>}
+        </div>
+        {log.length === 0 ? (
+          <p className="text-sm text-gray-400">No alerts fired yet.</p>
+        ) : (
+          <ul className="text-xs space-y-1 max-h-48 overflow-y-auto">
+            {log.map(e => (
+              <li key={e.id} className={e.level === "Danger" ? "text-danger" : "text-caution"}>
+                {new Date(e.firedAt).toLocaleTimeString()} · {e.level} · {e.label}
+                <span className="text-gray-400"> – {e.detail}</span>
+                {e.snoozed && <span className="text-gray-400"> (snoozed)</span>}
+                {!e.snoozed && e.acknowledged && <span className="text-gray-400"> (acknowledged)</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+        {Object.entries(snoozedUntil).filter(([, until]) => until > now).map(([key, until]) => (
+          <p key={key} className="text-xs text-gray-400">
+            {log.find(e => e.key === key)?.label ?? key} snoozed until {new Date(until).toLocaleTimeString()}
+          </p>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AUDIT_KINDS, EMPTY_AUDIT_FILTER, auditCsv, auditChanges, filterAudit, needsReason, stampChanges, type AuditChange, type AuditEntry, type AuditFilter, type AuditKind, type AuditPrefs, type AuditSnapshot } from "@/lib/audit";
+import { type NamedPreset } from "@/lib/presets";
+import { type AccountProfile } from "@/lib/profiles";
+import { downloadText } from "@/lib/utils";
+
+// Edits are logged once the inputs have been still this long, not per keystroke
+const SETTLE_MS = 1500;
+
+// A snapshot plus the raw values needed to put the account back if a change is reverted
+export interface AuditPoint {
+  snapshot: AuditSnapshot;
+  profile: AccountProfile;
+  preset?: NamedPreset;
+}
+
+export interface PendingAudit {
+  changes: AuditChange[];
+  restore: AuditPoint;
+}
+
+/**
+ * Log edits to the watched account. Callers `touch()` whenever the user edits
+ * something, so changes that arrive from other tabs (and are logged there)
+ * only move the baseline. With `prefs.requireReason` on, changes that loosen a
+ * limit are held as `pending` until they are approved with a reason or reverted.
+ */
+export function useAuditRecorder(point: AuditPoint, enabled: boolean, prefs: AuditPrefs, record: (entries: AuditEntry[]) => void) {
+  const [pending, setPending] = useState<PendingAudit | null>(null);
+  const committed = useRef<AuditPoint | null>(null);
+  const seen = useRef<AuditPoint | null>(null);
+  const dirty = useRef(false);
+  const latest = useRef({ point, prefs, record });
+  latest.current = { point, prefs, record };
+
+  const signature = JSON.stringify(point.snapshot);
+
+  const settle = useCallback((base: AuditPoint, current: AuditPoint) => {
+    const changes = auditChanges(base.snapshot, current.snapshot);
+    if (needsReason(changes, latest.current.prefs)) {
+      setPending({ changes, restore: base });
+      return;
+    }
+    if (changes.length > 0) latest.current.record(stampChanges(changes, ""));
+    committed.current = current;
+    dirty.current = false;
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || pending) return;
+    const current = latest.current.point;
+    const base = committed.current;
+    const previous = seen.current;
+    seen.current = current;
+
+    if (!base || base.snapshot.profileId !== current.snapshot.profileId) {
+      // Switching accounts inside the settle window still logs what was edited on the old one
+      if (base && dirty.current && previous?.snapshot.profileId === base.snapshot.profileId) settle(base, previous);
+      committed.current = current;
+      dirty.current = false;
+      return;
+    }
+    if (!dirty.current) {
+      committed.current = current;
+      return;
+    }
+    const timer = setTimeout(() => settle(base, latest.current.point), SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [signature, enabled, pending, settle]);
+
+  const touch = useCallback(() => { dirty.current = true; }, []);
+
+  const approve = useCallback((reason: string) => {
+    if (!pending) return;
+    latest.current.record(stampChanges(pending.changes, reason));
+    committed.current = latest.current.point;
+    dirty.current = false;
+    setPending(null);
+  }, [pending]);
+
+  // Returns the point to restore; the caller writes it back into state
+  const revert = useCallback((): AuditPoint | null => {
+    if (!pending) return null;
+    const current = latest.current.point;
+    committed.current = pending.restore.snapshot.profileId === current.snapshot.profileId ? pending.restore : current;
+    dirty.current = false;
+    setPending(null);
+    return pending.restore;
+  }, [pending]);
+
+  return { pending, touch, approve, revert };
+}
+
+function ChangeRow({ change }: { change: AuditChange }) {
+  return (
+    <li className={change.loosened ? "text-danger" : "text-gray-300"}>
+      {change.field}: {change.before} → {change.after}{change.loosened && " (looser)"}
+    </li>
+  );
+}
+
+// With a reason required, blocks the dashboard until a loosening change is explained or undone
+export function ReasonPrompt({ pending, onApprove, onRevert }: {
+  pending: PendingAudit;
+  onApprove: (reason: string) => void;
+  onRevert: () => void;
+}) {
+  const [reason, setReason] = useState("");
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ backgroundColor: 'rgba(0,0,0,0.6)' }}>
+      <section role="dialog" aria-modal="true" className="card p-4 sm:p-6 space-y-4 w-full max-w-lg" style={{ backgroundColor: '#1f2937', borderColor: '#ef4444', color: '#ffffff' }}>
+        <h2 className="text-lg font-semibold text-danger">Reason required</h2>
+        <p className="text-sm text-gray-300">
+          This change to <b>{pending.restore.snapshot.account}</b> loosens a risk limit. Note why before it is kept, or revert it.
+        </p>
+        <ul className="text-sm space-y-1 list-disc list-inside">
+          {pending.changes.map((c, i) => <ChangeRow key={i} change={c} />)}
+        </ul>
+        <textarea
+          className="input"
+          rows={3}
+          autoFocus
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Raised per-symbol loss for earnings play, approved by desk head"
+        />
+        <div className="flex items-center gap-4">
+          <button onClick={() => onApprove(reason.trim())} disabled={reason.trim() === ""} className="btn btn-primary disabled:opacity-50">Keep Change</button>
+          <button onClick={onRevert} className="text-sm text-blue-400 hover:text-blue-300 underline">Revert</button>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+export function AuditLog({ entries, profiles, prefs, onPrefsChange }: {
+  entries: AuditEntry[];
+  profiles: AccountProfile[];
+  prefs: AuditPrefs;
+  onPrefsChange: (prefs: AuditPrefs) => void;
+}) {
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY_AUDIT_FILTER);
+  const shown = useMemo(() => filterAudit(entries, filter).slice().reverse(), [entries, filter]);
+  const update = (patch: Partial<AuditFilter>) => setFilter(f => ({ ...f, ...patch }));
+  const kindLabel = (kind: AuditKind) => AUDIT_KINDS.find(k => k.kind === kind)?.label ?? kind;
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Change Log</h2>
+        <button
+          onClick={() => downloadText("cobra-change-log.csv", auditCsv(filterAudit(entries, filter)))}
+          disabled={shown.length === 0}
+          className="btn btn-primary disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <select className="input" style={{ width: 'auto' }} value={filter.profileId ?? ""} onChange={(e) => update({ profileId: e.target.value || null })}>
+          <option value="">All accounts</option>
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <select className="input" style={{ width: 'auto' }} value={filter.kind ?? ""} onChange={(e) => update({ kind: (e.target.value || null) as AuditKind | null })}>
+          <option value="">All changes</option>
+          {AUDIT_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+        </select>
+        <input className="input" style={{ width: 'auto' }} placeholder="Search" value={filter.text} onChange={(e) => update({ text: e.target.value })} />
+        <label className="flex items-center gap-2 text-gray-300">
+          <input type="checkbox" checked={filter.loosenedOnly} onChange={(e) => update({ loosenedOnly: e.target.checked })} />
+          Loosened only
+        </label>
+        <label className="flex items-center gap-2 text-gray-300 sm:ml-auto">
+          <input type="checkbox" checked={prefs.requireReason} onChange={(e) => onPrefsChange({ ...prefs, requireReason: e.target.checked })} />
+          Require a reason for loosened limits
+        </label>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-400">{entries.length === 0 ? "No changes recorded yet." : "No changes match these filters."}</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-gray-700">
+                <th className="p-2">Time</th>
+                <th className="p-2">Account</th>
+                <th className="p-2">Change</th>
+                <th className="p-2">Field</th>
+                <th className="p-2 text-right">Before</th>
+                <th className="p-2 text-right">After</th>
+                <th className="p-2">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(e => (
+                <tr key={e.id} className="border-b border-gray-800">
+                  <td className="p-2 whitespace-nowrap text-gray-400">{new Date(e.at).toLocaleString()}</td>
+                  <td className="p-2">{e.account}</td>
+                  <td className="p-2">{kindLabel(e.kind)}</td>
+                  <td className="p-2">{e.field}</td>
+                  <td className="p-2 text-right">{e.before || "—"}</td>
+                  <td className={e.loosened ? "p-2 text-right text-danger" : "p-2 text-right"}>{e.after}</td>
+                  <td className="p-2 text-gray-300">{e.reason || "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+import { useState } from "react";
+import { type RiskSettings } from "@/lib/calc";
+import { parseCfg, type CfgImportResult, type CfgSeverity } from "@/lib/cfg";
+
+function severityClass(s: CfgSeverity) {
+  return s === "error" ? "text-danger" : s === "warning" ? "text-caution" : "text-gray-400";
+}
+
+export function CfgImport({ equity, onApply }: { equity: number; onApply: (settings: RiskSettings) => void }) {
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<CfgImportResult | null>(null);
+
+  function parse(source: string) {
+    setResult(source.trim() ? parseCfg(source, equity) : null);
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const contents = await file.text();
+    setText(contents);
+    parse(contents);
+    e.target.value = "";
+  }
+
+  const errorCount = result?.diagnostics.filter(d => d.severity === "error").length ?? 0;
+  const warningCount = result?.diagnostics.filter(d => d.severity === "warning").length ?? 0;
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Import RiskControl.cfg</h2>
+        <label className="text-sm text-blue-400 hover:text-blue-300 underline cursor-pointer">
+          Choose file…
+          <input type="file" accept=".cfg,.txt,text/plain" className="hidden" onChange={onFile} />
+        </label>
+      </div>
+      <p className="text-sm text-gray-400">
+        Paste or upload an existing DAS config. Dollar limits are converted to percentages of the current equity ({equity > 0 ? equity.toLocaleString() : "not set"}) and loaded into Custom mode.
+      </p>
+      <textarea
+        className="input font-mono text-xs"
+        rows={8}
+        placeholder={"TotalLossLimit=-8250\nPosUnrealLossLimit=-1925\n..."}
+        value={text}
+        onChange={(e) => { setText(e.target.value); setResult(null); }}
+      />
+      <div className="flex items-center gap-4">
+        <button className="btn btn-primary" onClick={() => parse(text)} disabled={!text.trim()}>
+          Parse
+        </button>
+        <button
+          className="btn btn-primary"
+          onClick={() => result && onApply(result.settings)}
+          disabled={!result || errorCount > 0}
+        >
+          Load into Custom
+        </button>
+        {result && (
+          <span className="text-sm text-gray-400">
+            {result.mode ? `Exported from ${result.mode} · ` : ""}{errorCount} error(s), {warningCount} warning(s)
+          </span>
+        )}
+      </div>
+      {result && result.diagnostics.length > 0 && (
+        <ul className="text-xs space-y-1 border-t border-gray-600 pt-3">
+          {result.diagnostics.map((d, i) => (
+            <li key={i} className={severityClass(d.severity)}>
+              {d.line > 0 ? `Line ${d.line}: ` : ""}{d.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
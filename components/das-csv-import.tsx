@@ -0,0 +1,79 @@
+"use client";
+import { useState } from "react";
+import { dollars } from "@/lib/calc";
+import { parseDasCsv, type DasImportResult } from "@/lib/das-csv";
+
+export function DasCsvImport({ onApply }: { onApply: (result: DasImportResult) => void }) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<DasImportResult | null>(null);
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setPreview(parseDasCsv(await file.text()));
+    e.target.value = "";
+  }
+
+  function apply() {
+    if (!preview) return;
+    onApply(preview);
+    setPreview(null);
+    setFileName(null);
+  }
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Import DAS Trades / Positions CSV</h2>
+        <label className="text-sm text-blue-400 hover:text-blue-300 underline cursor-pointer">
+          Choose CSV…
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={onFile} />
+        </label>
+      </div>
+      <p className="text-sm text-gray-400">
+        Export the Trades or Positions window from DAS Trader. Realized P&L, open positions and trade count are previewed here before anything is applied.
+      </p>
+
+      {preview && (
+        <div className="space-y-3 border-t border-gray-600 pt-3">
+          <div className="text-sm text-gray-300">
+            <b>{fileName}</b> · {preview.kind ? `${preview.kind} export` : "unrecognised"} · {preview.rowsRead} row(s) read
+          </div>
+          {preview.kind && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+              <div>Realized P&L: {preview.hasRealized
+                ? <span className={preview.realizedPnL < 0 ? "text-danger" : "text-safe"}>{dollars(preview.realizedPnL)}</span>
+                : "n/a (no Realized column; Today's P&L is kept)"}</div>
+              <div>Open positions: {preview.positions.length}</div>
+              <div>Trades: {preview.kind === "trades" ? preview.tradeCount : "n/a (positions export)"}</div>
+            </div>
+          )}
+          {preview.positions.length > 0 && (
+            <div className="text-xs text-gray-400">
+              {preview.positions.map(p => `${p.symbol} ${p.side} ${p.shares.toLocaleString()} @ ${p.avgPrice.toFixed(2)}`).join(" · ")}
+            </div>
+          )}
+          {preview.errors.length > 0 && (
+            <ul className="text-xs space-y-1">
+              {preview.errors.map((err, i) => (
+                <li key={i} className="text-danger">{err.line > 0 ? `Line ${err.line}: ` : ""}{err.message}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center gap-4">
+            <button className="btn btn-primary" onClick={apply} disabled={!preview.kind || preview.rowsRead === 0}>
+              Apply to Dashboard
+            </button>
+            <button className="text-sm text-blue-400 hover:text-blue-300 underline" onClick={() => { setPreview(null); setFileName(null); }}>
+              Discard
+            </button>
+            {preview.errors.length > 0 && preview.kind && (
+              <span className="text-xs text-caution">{preview.errors.length} row(s) with errors will be skipped</span>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+import { dollars, type DollarClamp, type EquityTier, type RiskSettings, type ScaledField } from "@/lib/calc";
+import { settingLabel } from "@/lib/diff";
+import { SCALED_FIELDS, activeTier, tierLabel } from "@/lib/tiers";
+import { type SettingsIssue } from "@/lib/validation";
+
+function Issues({ issues }: { issues: SettingsIssue[] }) {
+  return (
+    <>
+      {issues.map((issue, i) => (
+        <p key={i} className={(issue.severity === "error" ? "text-red-400" : "text-yellow-400") + " text-xs mt-1"}>{issue.message}</p>
+      ))}
+    </>
+  );
+}
+
+const inputClass = (issues: SettingsIssue[]) => "input" + (issues.some(i => i.severity === "error") ? " input-error" : issues.length > 0 ? " input-warning" : "");
+
+/**
+ * Tier table and dollar clamps for the Custom settings. A tier's blank cell
+ * keeps the flat percentage; a clamp of 0 leaves that side open.
+ */
+export function EquityScaling({ settings, equity, issues, onChange }: {
+  settings: RiskSettings;
+  equity: number;
+  issues: SettingsIssue[];
+  onChange: (settings: RiskSettings) => void;
+}) {
+  const tiers = settings.equityTiers;
+  const current = activeTier(tiers, equity);
+  const tierIssues = issues.filter(i => i.field === "equityTiers");
+  const clampIssues = issues.filter(i => i.field === "dollarClamps");
+
+  const setTiers = (equityTiers: EquityTier[]) => onChange({ ...settings, equityTiers });
+  const updateTier = (index: number, tier: EquityTier) => setTiers(tiers.map((t, i) => i === index ? tier : t));
+
+  function setTierLimit(index: number, field: ScaledField, text: string) {
+    const { [field]: _old, ...limits } = tiers[index].limits;
+    updateTier(index, { ...tiers[index], limits: text === "" ? limits : { ...limits, [field]: Number(text) / 100 } });
+  }
+
+  function addTier() {
+    const top = tiers.reduce((max, t) => Math.max(max, t.minEquity), 0);
+    setTiers([...tiers, { minEquity: tiers.length === 0 ? 100_000 : top + 100_000, limits: {} }]);
+  }
+
+  function setClamp(field: ScaledField, side: keyof DollarClamp, text: string) {
+    const { [field]: old, ...rest } = settings.dollarClamps;
+    const clamp = { min: 0, max: 0, ...old, [side]: text === "" ? 0 : Number(text) };
+    onChange({ ...settings, dollarClamps: clamp.min === 0 && clamp.max === 0 ? rest : { ...rest, [field]: clamp } });
+  }
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-gray-600">
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-md font-semibold text-gray-100">Equity Tiers</h3>
+            <p className="text-xs text-gray-400">
+              Percentages that replace the ones above once equity reaches a tier. A blank cell keeps the flat percentage.
+              {tiers.length > 0 && (current ? ` At ${dollars(equity)} the ${tierLabel(current)} tier applies.` : ` At ${dollars(equity)} no tier applies yet.`)}
+            </p>
+          </div>
+          <button onClick={addTier} className="text-sm text-blue-400 hover:text-blue-300 underline whitespace-nowrap">Add Tier</button>
+        </div>
+        {tiers.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400">
+                  <th className="p-2">Equity From ($)</th>
+                  {SCALED_FIELDS.map(f => <th key={f} className="p-2">{settingLabel(f)} (%)</th>)}
+                  <th className="p-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {tiers.map((tier, i) => (
+                  <tr key={i} className={tier === current ? "bg-blue-900/30" : ""}>
+                    <td className="p-2">
+                      <input
+                        className={inputClass(tierIssues)}
+                        type="number"
+                        min="0"
+                        step="1000"
+                        value={tier.minEquity}
+                        onChange={(e) => updateTier(i, { ...tier, minEquity: Number(e.target.value) })}
+                      />
+                    </td>
+                    {SCALED_FIELDS.map(f => (
+                      <td key={f} className="p-2">
+                        <input
+                          className="input"
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          placeholder={String(Math.round(settings[f] * 1000) / 10)}
+                          value={tier.limits[f] === undefined ? "" : Math.round(tier.limits[f]! * 10000) / 100}
+                          onChange={(e) => setTierLimit(i, f, e.target.value)}
+                        />
+                      </td>
+                    ))}
+                    <td className="p-2">
+                      <button onClick={() => setTiers(tiers.filter((_, j) => j !== i))} className="text-sm text-red-400 hover:text-red-300 underline">Remove</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <Issues issues={tierIssues} />
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-md font-semibold text-gray-100">Dollar Clamps</h3>
+          <p className="text-xs text-gray-400">Floor and cap on each limit in dollars, applied after the tier. 0 leaves that side open; a limit set to 0% stays off.</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {SCALED_FIELDS.map(f => {
+            const clamp = settings.dollarClamps[f];
+            const fieldIssues = clampIssues.filter(i => i.message.startsWith(settingLabel(f)));
+            return (
+              <div key={f}>
+                <label className="text-sm text-gray-300">{settingLabel(f)}</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <input className={inputClass(fieldIssues)} type="number" min="0" step="100" placeholder="Floor" aria-label={`${settingLabel(f)} floor`}
+                    value={clamp?.min || ""} onChange={(e) => setClamp(f, "min", e.target.value)} />
+                  <input className={inputClass(fieldIssues)} type="number" min="0" step="100" placeholder="Cap" aria-label={`${settingLabel(f)} cap`}
+                    value={clamp?.max || ""} onChange={(e) => setClamp(f, "max", e.target.value)} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <Issues issues={clampIssues} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+import { dollars, pct } from "@/lib/calc";
+import { evaluateProfile, profileModeLabel, type AccountProfile } from "@/lib/profiles";
+import { type NamedPreset } from "@/lib/presets";
+import { StatusChip } from "@/components/status-chip";
+
+export function FirmRollup({ profiles, presets, activeId, onSelect, onExport }: {
+  profiles: AccountProfile[];
+  presets: NamedPreset[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onExport: (profile: AccountProfile) => void;
+}) {
+  const rows = profiles.map(profile => ({ profile, ...evaluateProfile(profile, presets) }));
+  const totalEquity = profiles.reduce((sum, p) => sum + p.equity, 0);
+  const totalPnL = rows.reduce((sum, r) => sum + r.risk.totalLossUsed, 0);
+  const flattenCount = rows.filter(r => r.risk.flattenNow).length;
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Firm Roll-up</h2>
+        <button onClick={() => profiles.forEach(onExport)} className="btn btn-primary">
+          📥 Export All Configs ({profiles.length})
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 text-xs">
+              <th className="p-2">Account</th>
+              <th className="p-2">Mode</th>
+              <th className="p-2 text-right">Equity</th>
+              <th className="p-2 text-right">P&L</th>
+              <th className="p-2">Drawdown</th>
+              <th className="p-2">Daily Budget</th>
+              <th className="p-2">Halted</th>
+              <th className="p-2">Total Loss</th>
+              <th className="p-2">Flatten</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ profile, risk }) => (
+              <tr
+                key={profile.id}
+                className={"border-t border-gray-700 cursor-pointer " + (profile.id === activeId ? "bg-gray-700/50" : "")}
+                onClick={() => onSelect(profile.id)}
+              >
+                <td className="p-2 font-medium">{profile.name || "(unnamed)"}</td>
+                <td className="p-2">{profileModeLabel(profile, presets)}</td>
+                <td className="p-2 text-right">{dollars(profile.equity)}</td>
+                <td className={"p-2 text-right " + (risk.totalLossUsed < 0 ? "text-danger" : "text-safe")}>{dollars(risk.totalLossUsed)}</td>
+                <td className="p-2"><StatusChip status={risk.drawdownStatus} title={risk.reasons.drawdown}>{pct(risk.drawdown, 1)}</StatusChip></td>
+                <td className="p-2"><StatusChip status={risk.remainingStatus} title={risk.reasons.remaining}>{dollars(risk.remainingBudget)}</StatusChip></td>
+                <td className="p-2"><StatusChip status={risk.haltedStatus} title={risk.reasons.halted}>{pct(risk.haltedPct, 0)}</StatusChip></td>
+                <td className="p-2"><StatusChip status={risk.totalLossStatus} title={risk.reasons.totalLoss}>{risk.totalLossStatus}</StatusChip></td>
+                <td className={"p-2 font-semibold " + (risk.flattenNow ? "text-danger" : "text-safe")} title={risk.reasons.flatten}>
+                  {risk.flattenNow ? "⚠ Flatten" : "OK"}
+                </td>
+                <td className="p-2">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onExport(profile); }}
+                    className="text-sm text-blue-400 hover:text-blue-300 underline whitespace-nowrap"
+                  >
+                    Export cfg
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="border-t border-gray-600 font-semibold">
+              <td className="p-2" colSpan={2}>Firm total</td>
+              <td className="p-2 text-right">{dollars(totalEquity)}</td>
+              <td className={"p-2 text-right " + (totalPnL < 0 ? "text-danger" : "text-safe")}>{dollars(totalPnL)}</td>
+              <td className="p-2 text-gray-400 font-normal" colSpan={6}>
+                {flattenCount > 0 ? `${flattenCount} account(s) flagged to flatten` : "All accounts within limits"}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,82 @@
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+  dashed?: boolean;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD = { top: 10, right: 10, bottom: 22, left: 64 };
+
+/**
+ * Minimal SVG line chart: one shared x axis of labels, any number of series,
+ * and an optional shaded band below a threshold (e.g. a loss limit).
+ */
+export function LineChart({ labels, series, format, dangerBelow }: {
+  labels: string[];
+  series: ChartSeries[];
+  format: (n: number) => string;
+  dangerBelow?: number[];        // Per-point threshold; the area under it is shaded red
+}) {
+  const all = [...series.flatMap(s => s.values), ...(dangerBelow ?? [])].filter(Number.isFinite);
+  if (labels.length === 0 || all.length === 0) {
+    return <div className="text-sm text-gray-400">Not enough data to chart yet.</div>;
+  }
+
+  let min = Math.min(...all);
+  let max = Math.max(...all);
+  if (min === max) { min -= 1; max += 1; }
+  const span = max - min;
+  min -= span * 0.05; max += span * 0.05;
+
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (labels.length === 1 ? innerW / 2 : (i / (labels.length - 1)) * innerW);
+  const y = (v: number) => PAD.top + (1 - (v - min) / (max - min)) * innerH;
+  const path = (values: number[]) => values.map((v, i) => `${i === 0 ? "M" : "L"}${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(" ");
+
+  const bottom = PAD.top + innerH;
+  const band = dangerBelow && dangerBelow.length > 0
+    ? `${path(dangerBelow)} L${x(dangerBelow.length - 1).toFixed(1)},${bottom} L${x(0).toFixed(1)},${bottom} Z`
+    : null;
+
+  const ticks = [max, (max + min) / 2, min];
+  const labelEvery = Math.max(1, Math.ceil(labels.length / 6));
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" style={{ backgroundColor: 'transparent' }}>
+        {ticks.map((t, i) => (
+          <g key={i}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="#374151" strokeWidth={1} />
+            <text x={PAD.left - 6} y={y(t) + 4} textAnchor="end" fontSize={10} fill="#9ca3af">{format(t)}</text>
+          </g>
+        ))}
+        {band && <path d={band} fill="rgba(220, 38, 38, 0.2)" stroke="none" />}
+        {dangerBelow && <path d={path(dangerBelow)} fill="none" stroke="#ef4444" strokeWidth={1} strokeDasharray="4 3" />}
+        {series.map(s => (
+          <g key={s.label}>
+            <path d={path(s.values)} fill="none" stroke={s.color} strokeWidth={2} strokeDasharray={s.dashed ? "5 4" : undefined} />
+            {s.values.map((v, i) => <circle key={i} cx={x(i)} cy={y(v)} r={2.5} fill={s.color} />)}
+          </g>
+        ))}
+        {labels.map((l, i) => i % labelEvery === 0 && (
+          <text key={i} x={x(i)} y={HEIGHT - 6} textAnchor="middle" fontSize={10} fill="#9ca3af">{l}</text>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs text-gray-400">
+        {series.map(s => (
+          <span key={s.label} className="flex items-center gap-1">
+            <span style={{ display: 'inline-block', width: 12, height: 2, backgroundColor: s.color }} /> {s.label}
+          </span>
+        ))}
+        {dangerBelow && (
+          <span className="flex items-center gap-1">
+            <span style={{ display: 'inline-block', width: 12, height: 8, backgroundColor: 'rgba(220, 38, 38, 0.4)' }} /> Beyond limit
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+import { dollars } from "@/lib/calc";
+import { type LedgerEvaluation, type Position, type Side } from "@/lib/positions";
+import { newId } from "@/lib/utils";
+import { StatusChip } from "@/components/status-chip";
+
+const cellInput = "w-full px-2 py-1 rounded-md border border-gray-600 bg-gray-700 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export function PositionLedger({ positions, ledger, onChange }: {
+  positions: Position[];
+  ledger: LedgerEvaluation;
+  onChange: (positions: Position[]) => void;
+}) {
+  function update(id: string, patch: Partial<Position>) {
+    onChange(positions.map(p => p.id === id ? { ...p, ...patch } : p));
+  }
+
+  function addRow() {
+    onChange([...positions, { id: newId(), symbol: "", side: "Long", shares: 0, avgPrice: 0, lastPrice: 0 }]);
+  }
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Open Positions</h2>
+        <div className="flex items-center gap-4">
+          {positions.length > 0 && (
+            <button onClick={() => onChange([])} className="text-sm text-blue-400 hover:text-blue-300 underline">
+              Clear All
+            </button>
+          )}
+          <button onClick={addRow} className="btn btn-primary">+ Add Position</button>
+        </div>
+      </div>
+
+      {positions.length === 0 ? (
+        <p className="text-sm text-gray-400">No open positions. Add rows to check them against the per-symbol limits.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 text-xs">
+                <th className="p-2">Symbol</th>
+                <th className="p-2">Side</th>
+                <th className="p-2">Shares</th>
+                <th className="p-2">Avg Price</th>
+                <th className="p-2">Last Price</th>
+                <th className="p-2 text-right">Mkt Value</th>
+                <th className="p-2 text-right">Unrealized</th>
+                <th className="p-2">Status</th>
+                <th className="p-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.rows.map(({ position: p, marketValue, unrealizedPnL, status, reasons }) => (
+                <tr key={p.id} className="border-t border-gray-700">
+                  <td className="p-2">
+                    <input className={cellInput} value={p.symbol} placeholder="AAPL"
+                      onChange={(e) => update(p.id, { symbol: e.target.value.toUpperCase() })} />
+                  </td>
+                  <td className="p-2">
+                    <select className={cellInput} value={p.side} onChange={(e) => update(p.id, { side: e.target.value as Side })}>
+                      <option value="Long">Long</option>
+                      <option value="Short">Short</option>
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <input className={cellInput} type="number" min="0" value={p.shares}
+                      onChange={(e) => update(p.id, { shares: Number(e.target.value) })} />
+                  </td>
+                  <td className="p-2">
+                    <input className={cellInput} type="number" step="0.01" min="0" value={p.avgPrice}
+                      onChange={(e) => update(p.id, { avgPrice: Number(e.target.value) })} />
+                  </td>
+                  <td className="p-2">
+                    <input className={cellInput} type="number" step="0.01" min="0" value={p.lastPrice}
+                      onChange={(e) => update(p.id, { lastPrice: Number(e.target.value) })} />
+                  </td>
+                  <td className="p-2 text-right">{dollars(marketValue)}</td>
+                  <td className={"p-2 text-right " + (unrealizedPnL < 0 ? "text-danger" : "text-safe")}>{dollars(unrealizedPnL)}</td>
+                  <td className="p-2">
+                    <StatusChip status={status} title={reasons.join("\n") || "Within per-symbol limits"} />
+                  </td>
+                  <td className="p-2">
+                    <button onClick={() => onChange(positions.filter(x => x.id !== p.id))} className="text-gray-400 hover:text-red-400" title="Remove">✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-4 border-t border-gray-600 items-center text-sm">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-gray-300">Unrealized P&L</span>
+          <span className={ledger.unrealizedPnL < 0 ? "text-danger font-semibold" : "text-safe font-semibold"}>{dollars(ledger.unrealizedPnL)}</span>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-gray-300">Exposure vs OpenPosValueLimit</span>
+          <StatusChip status={ledger.exposureStatus}>{dollars(ledger.totalExposure)} / {dollars(ledger.totalExposureLimit)}</StatusChip>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-gray-300">Positions vs MaxPositions</span>
+          <StatusChip status={ledger.positionCountStatus}>{ledger.positionCount} open</StatusChip>
+        </div>
+      </div>
+    </section>
+  );
+}
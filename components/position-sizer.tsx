@@ -0,0 +1,97 @@
+"use client";
+import { useState } from "react";
+import { dollars, pct, type RiskSettings } from "@/lib/calc";
+import { type LedgerEvaluation } from "@/lib/positions";
+import { sizePosition, type SizingOrder } from "@/lib/sizing";
+
+export function PositionSizer({ settings, equity, todaysPnL, unrealizedPnL, ledger }: {
+  settings: RiskSettings;
+  equity: number;
+  todaysPnL: number;
+  unrealizedPnL: number;
+  ledger: LedgerEvaluation;
+}) {
+  const [order, setOrder] = useState<SizingOrder>({ symbol: "", side: "Long", entryPrice: 0, stopPrice: 0 });
+  const ready = order.entryPrice > 0 && order.stopPrice > 0;
+  const result = sizePosition(order, settings, equity, todaysPnL, unrealizedPnL, ledger);
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <h2 className="text-lg font-semibold">Position Sizing</h2>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="text-sm text-gray-300">Symbol</label>
+          <input className="input" value={order.symbol} placeholder="AAPL" onChange={(e) => setOrder({ ...order, symbol: e.target.value.toUpperCase() })} />
+        </div>
+        <div>
+          <label className="text-sm text-gray-300">Side</label>
+          <select className="input" value={order.side} onChange={(e) => setOrder({ ...order, side: e.target.value as SizingOrder["side"] })}>
+            <option>Long</option>
+            <option>Short</option>
+          </select>
+        </div>
+        <div>
+          <label className="text-sm text-gray-300">Entry Price ($)</label>
+          <input className="input" type="number" step="0.01" min="0" value={order.entryPrice} onChange={(e) => setOrder({ ...order, entryPrice: Number(e.target.value) })} />
+        </div>
+        <div>
+          <label className="text-sm text-gray-300">Stop Price ($)</label>
+          <input className="input" type="number" step="0.01" min="0" value={order.stopPrice} onChange={(e) => setOrder({ ...order, stopPrice: Number(e.target.value) })} />
+        </div>
+      </div>
+
+      {!ready ? (
+        <p className="text-sm text-gray-400">Enter an entry and stop price to size the trade against the active limits.</p>
+      ) : (
+        <>
+          {result.errors.map((error, i) => <p key={i} className="text-sm text-caution">{error}</p>)}
+          {result.binding && (
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+              <Tile label="Max Shares" value={result.shares.toLocaleString()} />
+              <Tile label="Binding Limit" value={result.binding.limit} />
+              <Tile
+                label={`Risk to Stop (${dollars(result.riskPerShare)}/sh)`}
+                value={dollars(result.riskDollars) + (result.dailyBudgetUsed !== null ? ` · ${pct(result.dailyBudgetUsed, 0)} of daily budget` : "")}
+              />
+              <Tile
+                label="Position Value"
+                value={dollars(result.positionValue) + (result.exposureUsed !== null ? ` · ${pct(result.exposureUsed, 0)} of exposure left` : "")}
+              />
+            </div>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 text-xs">
+                  <th className="p-2">Limit</th>
+                  <th className="p-2">DAS Key</th>
+                  <th className="p-2 text-right">Max Shares</th>
+                  <th className="p-2">Basis</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.constraints.map(c => (
+                  <tr key={c.cfgKey} className={"border-t border-gray-700 " + (c === result.binding ? "bg-gray-700/50 font-semibold" : "")}>
+                    <td className="p-2">{c.limit}{c === result.binding && " ◀ binding"}</td>
+                    <td className="p-2 font-mono text-xs text-gray-400">{c.cfgKey}</td>
+                    <td className="p-2 text-right">{c.maxShares === null ? "Not set" : c.maxShares.toLocaleString()}</td>
+                    <td className="p-2 text-xs text-gray-400">{c.maxShares === null ? "—" : c.detail}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+function Tile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 rounded-xl bg-gray-700 border border-gray-600" style={{ backgroundColor: '#374151', borderColor: '#4b5563' }}>
+      <div className="text-xs text-gray-400" style={{ color: '#9ca3af' }}>{label}</div>
+      <div className="text-base font-semibold">{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+import { useState } from "react";
+import { pct, type Mode } from "@/lib/calc";
+import { duplicatePreset, presetFromMode, type NamedPreset } from "@/lib/presets";
+
+const SOURCE_MODES: Mode[] = ["Conservative", "Standard", "Aggressive", "Custom"];
+
+export function PresetLibrary({ presets, selectedId, onSelect, onChange, onSaveCurrent }: {
+  presets: NamedPreset[];
+  selectedId: string | null;     // Preset in use by the active account, if any
+  onSelect: (id: string) => void;
+  onChange: (presets: NamedPreset[]) => void;
+  onSaveCurrent: () => void;
+}) {
+  const [source, setSource] = useState<Mode>("Standard");
+
+  function rename(id: string, name: string) {
+    onChange(presets.map(p => p.id === id ? { ...p, name } : p));
+  }
+
+  function add(preset: NamedPreset) {
+    onChange([...presets, preset]);
+    onSelect(preset.id);
+  }
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-600 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h3 className="text-md font-semibold">Custom Presets</h3>
+        <div className="flex flex-wrap items-center gap-3">
+          <select className="input" style={{ width: 'auto' }} value={source} onChange={(e) => setSource(e.target.value as Mode)}>
+            {SOURCE_MODES.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <button onClick={() => add(presetFromMode(source, presets))} className="btn btn-primary whitespace-nowrap">
+            + New from {source}
+          </button>
+          <button onClick={onSaveCurrent} className="text-sm text-blue-400 hover:text-blue-300 underline whitespace-nowrap">
+            Save current settings as preset
+          </button>
+        </div>
+      </div>
+
+      {presets.length === 0 ? (
+        <p className="text-sm text-gray-400">No saved presets. Start one from a built-in mode, or save the current settings.</p>
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '1rem' }}>
+          {presets.map(preset => {
+            const isSelected = preset.id === selectedId;
+            return (
+              <div
+                key={preset.id}
+                style={{
+                  padding: '1rem',
+                  borderRadius: '0.5rem',
+                  border: '2px solid',
+                  transition: 'all 0.2s',
+                  borderColor: isSelected ? '#3b82f6' : '#4b5563',
+                  backgroundColor: isSelected ? 'rgba(30, 58, 138, 0.4)' : 'rgba(30, 64, 175, 0.2)'
+                }}
+              >
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <input
+                    className="input text-sm font-semibold"
+                    style={{ padding: '0.25rem 0.5rem' }}
+                    value={preset.name}
+                    onChange={(e) => rename(preset.id, e.target.value)}
+                  />
+                  {isSelected && <span className="text-blue-400 text-xs whitespace-nowrap">✓ Selected</span>}
+                </div>
+                <div className="space-y-2 text-xs">
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Total Loss:</span>
+                    <span className="font-medium">{pct(preset.settings.totalLossLimit, 1)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Per-Symbol:</span>
+                    <span className="font-medium">{pct(preset.settings.perSymbolLossLimit, 1)}</span>
+                  </div>
+                  {preset.basedOn && (
+                    <div className="text-gray-400">Based on {preset.basedOn}</div>
+                  )}
+                </div>
+                <div className="mt-3 pt-2 border-t border-gray-600 flex items-center justify-between text-xs">
+                  <button onClick={() => onSelect(preset.id)} disabled={isSelected} className="text-blue-400 hover:text-blue-300 underline disabled:opacity-50 disabled:no-underline">Use</button>
+                  <button onClick={() => add(duplicatePreset(preset, presets))} className="text-blue-400 hover:text-blue-300 underline">Duplicate</button>
+                  <button
+                    onClick={() => window.confirm(`Delete preset "${preset.name}"?`) && onChange(presets.filter(p => p.id !== preset.id))}
+                    className="text-gray-400 hover:text-red-400 underline"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
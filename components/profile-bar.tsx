@@ -0,0 +1,44 @@
+"use client";
+import { type AccountProfile } from "@/lib/profiles";
+
+export function ProfileBar({ profiles, activeId, onSelect, onRename, onAdd, onDelete }: {
+  profiles: AccountProfile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onRename: (name: string) => void;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+}) {
+  const active = profiles.find(p => p.id === activeId);
+
+  return (
+    <section className="card p-4 sm:p-6" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <h2 className="text-lg font-semibold whitespace-nowrap">Account</h2>
+        <select
+          className="input sm:max-w-xs"
+          value={activeId}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name || "(unnamed)"}</option>)}
+        </select>
+        <input
+          className="input sm:max-w-xs"
+          placeholder="Account name"
+          value={active?.name ?? ""}
+          onChange={(e) => onRename(e.target.value)}
+        />
+        <div className="flex items-center gap-4 sm:ml-auto">
+          <button onClick={onAdd} className="btn btn-primary">+ New Account</button>
+          <button
+            onClick={() => active && window.confirm(`Delete account "${active.name}"?`) && onDelete(active.id)}
+            disabled={profiles.length <= 1}
+            className="text-sm text-blue-400 hover:text-blue-300 underline disabled:opacity-50 disabled:no-underline"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
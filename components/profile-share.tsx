@@ -0,0 +1,104 @@
+"use client";
+import { useState } from "react";
+import { type NamedPreset } from "@/lib/presets";
+import { profileModeLabel, type AccountProfile } from "@/lib/profiles";
+import { buildProfileJson, buildShareLink, parseProfileJson, profileJsonFileName, type ProfileImportResult } from "@/lib/share";
+import { downloadText } from "@/lib/utils";
+
+function ImportMessages({ result }: { result: ProfileImportResult }) {
+  return (
+    <>
+      {result.errors.map((m, i) => <p key={`e${i}`} className="text-xs text-red-400">{m}</p>)}
+      {result.warnings.map((m, i) => <p key={`w${i}`} className="text-xs text-yellow-400">{m}</p>)}
+    </>
+  );
+}
+
+export function ProfileShare({ profile, presets, onImport }: {
+  profile: AccountProfile;
+  presets: NamedPreset[];
+  onImport: (profile: AccountProfile) => void;
+}) {
+  const [copied, setCopied] = useState<string | null>(null);
+  const [imported, setImported] = useState<ProfileImportResult | null>(null);
+
+  async function copyShareLink() {
+    const link = buildShareLink(profile, presets, window.location.origin + window.location.pathname);
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied("Share link copied to the clipboard");
+    } catch {
+      window.prompt("Copy this share link:", link);
+    }
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImported(parseProfileJson(await file.text()));
+    e.target.value = "";
+  }
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <h2 className="text-lg font-semibold">Export &amp; Share</h2>
+      <div className="flex flex-wrap items-center gap-3">
+        <button onClick={() => downloadText(profileJsonFileName(profile), buildProfileJson(profile, presets))} className="btn btn-primary">Export JSON</button>
+        <button onClick={copyShareLink} className="btn btn-primary">Copy Share Link</button>
+        <button onClick={() => window.print()} className="btn btn-primary">Print Risk Sheet</button>
+        <label className="text-sm text-blue-400 hover:text-blue-300 underline cursor-pointer">
+          Import JSON…
+          <input type="file" accept=".json,application/json" className="hidden" onChange={onFile} />
+        </label>
+        {copied && <span className="text-xs text-safe">{copied}</span>}
+      </div>
+      <p className="text-sm text-gray-400">
+        JSON and share links carry this account&apos;s resolved settings, status thresholds and inputs. A share link opens the dashboard read-only until the recipient accepts it.
+      </p>
+
+      {imported && (
+        <div className="space-y-2 border-t border-gray-600 pt-3">
+          {imported.profile ? (
+            <p className="text-sm">
+              <b>{imported.profile.name}</b> · {profileModeLabel(imported.profile)} · exported {imported.doc?.exportedAt ? new Date(imported.doc.exportedAt).toLocaleString() : "at an unknown time"}
+            </p>
+          ) : (
+            <p className="text-sm text-red-400">Nothing was imported.</p>
+          )}
+          <ImportMessages result={imported} />
+          <div className="flex items-center gap-4">
+            {imported.profile && (
+              <button onClick={() => { onImport(imported.profile!); setImported(null); }} className="btn btn-primary">Add as New Account</button>
+            )}
+            <button onClick={() => setImported(null)} className="text-sm text-blue-400 hover:text-blue-300 underline">Discard</button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+// Shown above a dashboard opened from a share link; everything below it is disabled until accepted
+export function SharedPreview({ result, onAccept, onDismiss }: {
+  result: ProfileImportResult;
+  onAccept: () => void;
+  onDismiss: () => void;
+}) {
+  return (
+    <section className="card p-4 sm:p-6 space-y-3" style={{ backgroundColor: '#1f2937', borderColor: '#3b82f6', color: '#ffffff' }}>
+      <h2 className="text-lg font-semibold">
+        {result.profile ? <>Shared configuration: {result.profile.name} · {profileModeLabel(result.profile)}</> : "Shared link could not be opened"}
+      </h2>
+      {result.profile && (
+        <p className="text-sm text-gray-300">
+          You are previewing someone else&apos;s settings and inputs. Nothing is saved and the dashboard is read-only until you accept.
+        </p>
+      )}
+      <ImportMessages result={result} />
+      <div className="flex items-center gap-4">
+        {result.profile && <button onClick={onAccept} className="btn btn-primary">Accept as New Account</button>}
+        <button onClick={onDismiss} className="text-sm text-blue-400 hover:text-blue-300 underline">{result.profile ? "Dismiss" : "Close"}</button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,100 @@
+import { dollars, pct, type StatusThresholds } from "@/lib/calc";
+import { SETTING_FIELDS, settingDollars, settingLabel } from "@/lib/diff";
+import { type AccountProfile, type ProfileEvaluation } from "@/lib/profiles";
+import { describeClamps, describeTiers, hasScaling } from "@/lib/tiers";
+
+const THRESHOLD_ROWS: { label: string; caution: keyof StatusThresholds; danger: keyof StatusThresholds; sign: string }[] = [
+  { label: "Drawdown vs prior equity", caution: "drawdownCaution", danger: "drawdownDanger", sign: "≤ -" },
+  { label: "Loss budget / total loss used", caution: "lossCaution", danger: "lossDanger", sign: "> " },
+  { label: "Halted exposure", caution: "haltedCaution", danger: "haltedDanger", sign: "> " },
+];
+
+const cell = { border: '1px solid #9ca3af', padding: '4px 8px', textAlign: 'left' as const };
+
+/**
+ * One-page summary of an account's limits for the trader's desk. Hidden on
+ * screen; `.risk-sheet` is the only thing printed (see globals.css).
+ */
+export function RiskSheet({ profile, modeLabel, evaluation }: {
+  profile: AccountProfile;
+  modeLabel: string;
+  evaluation: ProfileEvaluation;
+}) {
+  const { settings, thresholds, risk } = evaluation;
+
+  return (
+    <div className="risk-sheet" style={{ backgroundColor: '#ffffff', color: '#000000', fontSize: 12, padding: '1rem' }}>
+      <h1 style={{ fontSize: 18, fontWeight: 700 }}>Risk Sheet · {profile.name}</h1>
+      <p>
+        {modeLabel} · Equity {dollars(profile.equity)} · Prior equity {dollars(profile.priorEquity)} · Printed {new Date().toLocaleString()}
+      </p>
+
+      <h2 style={{ fontSize: 14, fontWeight: 600, marginTop: 12 }}>DAS Risk Control Limits</h2>
+      <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+        <thead>
+          <tr>
+            <th style={cell}>Setting</th>
+            <th style={cell}>DAS Key</th>
+            <th style={cell}>Value</th>
+            <th style={cell}>Dollars</th>
+          </tr>
+        </thead>
+        <tbody>
+          {SETTING_FIELDS.map(f => {
+            const value = settings[f.field];
+            const amount = settingDollars(f, settings, profile.equity);
+            return (
+              <tr key={f.field}>
+                <td style={cell}>{f.label}</td>
+                <td style={{ ...cell, fontFamily: 'monospace' }}>{f.cfgKey}</td>
+                <td style={cell}>
+                  {f.kind === "flag" ? (value ? "On" : "Off")
+                    : f.kind === "time" ? (value || "—")
+                    : f.kind === "count" ? ((value as number) === 0 ? "No limit" : (value as number).toLocaleString())
+                    : pct(value as number, 2)}
+                </td>
+                <td style={cell}>{amount === null ? "—" : dollars(amount)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {hasScaling(settings) && (
+        <p style={{ marginTop: 4 }}>
+          Dollars include equity tiers ({describeTiers(settings.equityTiers, settingLabel)}) and dollar clamps ({describeClamps(settings.dollarClamps, settingLabel)}).
+        </p>
+      )}
+
+      <h2 style={{ fontSize: 14, fontWeight: 600, marginTop: 12 }}>Status Thresholds</h2>
+      <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+        <thead>
+          <tr>
+            <th style={cell}>Check</th>
+            <th style={cell}>Caution</th>
+            <th style={cell}>Danger</th>
+          </tr>
+        </thead>
+        <tbody>
+          {THRESHOLD_ROWS.map(r => (
+            <tr key={r.label}>
+              <td style={cell}>{r.label}</td>
+              <td style={cell}>{r.sign}{pct(thresholds[r.caution], 1)}</td>
+              <td style={cell}>{r.sign}{pct(thresholds[r.danger], 1)}</td>
+            </tr>
+          ))}
+          <tr>
+            <td style={cell}>Flatten Now</td>
+            <td style={cell} colSpan={2}>
+              Loss budget used &gt; {pct(thresholds.flattenLoss, 1)} or halted exposure &gt; {pct(thresholds.flattenHalted, 1)}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <h2 style={{ fontSize: 14, fontWeight: 600, marginTop: 12 }}>At Print Time</h2>
+      <p>
+        Today&apos;s P&L {dollars(profile.todaysPnL)} · Loss budget left {dollars(risk.remainingBudget)} ({pct(risk.budget.usedPct, 0)} used) · Total loss remaining {dollars(risk.totalLossRemaining)} · {risk.flattenNow ? "FLATTEN NOW" : "Within risk limits"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+import { useMemo, useState } from "react";
+import { dollars, pct } from "@/lib/calc";
+import { type NamedPreset } from "@/lib/presets";
+import { type AccountProfile, type ProfileEvaluation } from "@/lib/profiles";
+import { type Status } from "@/lib/risk";
+import { SWEEP_CHECKS, evaluateScenario, scenarioFromProfile, sweepPnL, type Scenario, type SweepPoint } from "@/lib/scenario";
+import { LineChart } from "@/components/line-chart";
+import { StatusChip, statusColor } from "@/components/status-chip";
+
+const STRIP_COLORS: Record<Status, string> = { Safe: "#16a34a", Caution: "#eab308", Danger: "#dc2626" };
+
+function compareRows(e: ProfileEvaluation) {
+  const { risk } = e;
+  return [
+    { label: "Drawdown % vs Prior", status: risk.drawdownStatus, value: pct(risk.drawdown, 1), reason: risk.reasons.drawdown },
+    { label: "Remaining Loss Budget", status: risk.remainingStatus, value: dollars(risk.remainingBudget), reason: risk.reasons.remaining },
+    { label: "Halted Exposure %", status: risk.haltedStatus, value: pct(risk.haltedPct, 0), reason: risk.reasons.halted },
+    { label: "Total Loss Used", status: risk.totalLossStatus, value: dollars(risk.totalLossUsed), reason: risk.reasons.totalLoss },
+    { label: "Open Exposure", status: e.ledger.exposureStatus, value: dollars(e.ledger.totalExposure), reason: "" },
+  ];
+}
+
+export function ScenarioSimulator({ profile, presets, live }: {
+  profile: AccountProfile;
+  presets: NamedPreset[];
+  live: ProfileEvaluation;
+}) {
+  const [scenario, setScenario] = useState<Scenario>(() => scenarioFromProfile(profile));
+  const [showSweep, setShowSweep] = useState(false);
+
+  const result = useMemo(() => evaluateScenario(profile, scenario, presets), [profile, scenario, presets]);
+  const sweep = useMemo(() => showSweep ? sweepPnL(profile, scenario, presets) : null, [showSweep, profile, scenario, presets]);
+
+  const liveRows = compareRows(live);
+  const scenarioRows = compareRows(result);
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">What-If Scenario</h2>
+        <div className="flex items-center gap-4">
+          <button onClick={() => setScenario(scenarioFromProfile(profile))} className="text-sm text-blue-400 hover:text-blue-300 underline">Reset to Live</button>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={showSweep} onChange={(e) => setShowSweep(e.target.checked)} />
+            P&L sweep
+          </label>
+        </div>
+      </div>
+      <p className="text-sm text-gray-400">Sandbox only: nothing here changes the account&apos;s saved inputs.</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="text-sm text-gray-300">Equity ($)</label>
+          <input className="input" type="number" value={scenario.equity} onChange={(e) => setScenario({ ...scenario, equity: Number(e.target.value) })} />
+        </div>
+        <div>
+          <label className="text-sm text-gray-300">Today&apos;s P&L ($)</label>
+          <input className="input" type="number" value={scenario.todaysPnL} onChange={(e) => setScenario({ ...scenario, todaysPnL: Number(e.target.value) })} />
+        </div>
+        <div>
+          <label className="text-sm text-gray-300">Halted Exposure ($)</label>
+          <input className="input" type="number" min="0" value={scenario.haltedExposure} onChange={(e) => setScenario({ ...scenario, haltedExposure: Number(e.target.value) })} />
+        </div>
+        <div>
+          <label className="text-sm text-gray-300" title="Moves the last price of every open position by this percent">Position Move (%)</label>
+          <input className="input" type="number" step="0.5" value={Math.round(scenario.priceMove * 1000) / 10}
+            onChange={(e) => setScenario({ ...scenario, priceMove: Number(e.target.value) / 100 })} />
+          {profile.positions.length === 0 && <p className="text-xs text-gray-400 mt-1">No open positions in the ledger</p>}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 text-xs">
+              <th className="p-2">Check</th>
+              <th className="p-2">Live</th>
+              <th className="p-2">Scenario</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scenarioRows.map((row, i) => (
+              <tr key={row.label} className="border-t border-gray-700">
+                <td className="p-2">{row.label}</td>
+                <td className="p-2"><StatusChip status={liveRows[i].status} title={liveRows[i].reason}>{liveRows[i].value} · {liveRows[i].status}</StatusChip></td>
+                <td className="p-2"><StatusChip status={row.status} title={row.reason}>{row.value} · {row.status}</StatusChip></td>
+              </tr>
+            ))}
+            <tr className="border-t border-gray-700">
+              <td className="p-2">Flatten Recommendation</td>
+              <td className={"p-2 font-semibold " + (live.risk.flattenNow ? "text-danger" : "text-safe")} title={live.risk.reasons.flatten}>
+                {live.risk.flattenNow ? "⚠ Flatten Now" : "OK"}
+              </td>
+              <td className={"p-2 font-semibold " + (result.risk.flattenNow ? "text-danger" : "text-safe")} title={result.risk.reasons.flatten}>
+                {result.risk.flattenNow ? "⚠ Flatten Now" : "OK"}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {sweep && (
+        <div className="space-y-3 border-t border-gray-600 pt-3">
+          <h3 className="text-sm font-semibold text-gray-300">P&L from $0 to the Total Loss Limit</h3>
+          {sweep.points.length === 0 ? (
+            <p className="text-sm text-gray-400">Set a TotalLossLimit to sweep P&L.</p>
+          ) : (
+            <>
+              <LineChart
+                labels={sweep.points.map(p => dollars(p.pnl))}
+                series={[
+                  { label: "Remaining daily budget", color: "#60a5fa", values: sweep.points.map(p => p.remainingBudget) },
+                  { label: "Total loss remaining", color: "#a78bfa", values: sweep.points.map(p => p.totalLossRemaining), dashed: true },
+                ]}
+                format={dollars}
+              />
+              <StatusStrip points={sweep.points} />
+              {sweep.flips.length === 0 ? (
+                <p className="text-sm text-gray-400">No status changes across the sweep.</p>
+              ) : (
+                <ul className="text-xs space-y-1">
+                  {sweep.flips.map((f, i) => (
+                    <li key={i} className="flex items-center gap-2">
+                      <span className={"inline-block w-2 h-2 rounded-full " + statusColor(f.to)} />
+                      {f.label}: {f.from} → {f.to} at {dollars(f.pnl)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+// One row per check, coloured by status at each swept P&L
+function StatusStrip({ points }: { points: SweepPoint[] }) {
+  const width = 600, row = 14, gap = 4, labelW = 110;
+  const cell = (width - labelW) / points.length;
+  return (
+    <svg viewBox={`0 0 ${width} ${SWEEP_CHECKS.length * (row + gap)}`} className="w-full">
+      {SWEEP_CHECKS.map(({ check, label }, r) => (
+        <g key={check}>
+          <text x={0} y={r * (row + gap) + row - 3} fontSize={10} fill="#9ca3af">{label}</text>
+          {points.map((p, i) => (
+            <rect key={i} x={labelW + i * cell} y={r * (row + gap)} width={cell + 0.5} height={row} fill={STRIP_COLORS[p.statuses[check]]} />
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+}
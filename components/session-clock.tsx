@@ -0,0 +1,111 @@
+"use client";
+import { useEffect, useState } from "react";
+import { DEFAULT_HOLIDAYS, formatCountdown, uncoveredYears, type MarketHoliday, type MarketPhase, type SessionState } from "@/lib/session";
+import { StatusChip } from "@/components/status-chip";
+
+const PHASE_LABELS: Record<MarketPhase, string> = {
+  closed: "Closed",
+  pre: "Pre-Market",
+  regular: "Regular Hours",
+  after: "After-Hours",
+};
+
+const systemClock = () => new Date();
+
+// Ticking clock; pass a different `clock` to drive the dashboard from a fixed or simulated time
+export function useClock(clock: () => Date = systemClock, intervalMs = 1000): Date {
+  const [now, setNow] = useState(clock);
+  useEffect(() => {
+    const id = setInterval(() => setNow(clock()), intervalMs);
+    return () => clearInterval(id);
+  }, [clock, intervalMs]);
+  return now;
+}
+
+export function SessionClock({ now, session, holidays, onHolidaysChange }: {
+  now: Date;
+  session: SessionState;
+  holidays: MarketHoliday[];
+  onHolidaysChange: (holidays: MarketHoliday[]) => void;
+}) {
+  const [showHolidays, setShowHolidays] = useState(false);
+  const [draft, setDraft] = useState<MarketHoliday>({ date: "", name: "" });
+  const upcoming = holidays.filter(h => h.date >= session.et.date).sort((a, b) => a.date.localeCompare(b.date));
+  const gaps = uncoveredYears(holidays, session.et.date);
+  const builtIn = DEFAULT_HOLIDAYS.filter(h => gaps.some(y => h.date.startsWith(`${y}-`)));
+
+  function addHoliday() {
+    if (!draft.date || !draft.name.trim()) return;
+    const entry: MarketHoliday = { date: draft.date, name: draft.name.trim(), ...(draft.earlyClose ? { earlyClose: draft.earlyClose } : {}) };
+    onHolidaysChange([...holidays.filter(h => h.date !== entry.date), entry].sort((a, b) => a.date.localeCompare(b.date)));
+    setDraft({ date: "", name: "" });
+  }
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Market Session</h2>
+        <button onClick={() => setShowHolidays(!showHolidays)} className="text-sm text-blue-400 hover:text-blue-300 underline">
+          {showHolidays ? "Hide" : "Edit"} Holiday Calendar
+        </button>
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4 items-center">
+        <Tile label="Local Time" value={now.toLocaleTimeString()} />
+        <Tile label="New York (ET)" value={session.et.time} />
+        <Tile label="Session" value={session.holiday && !session.isTradingDay ? session.holiday.name : PHASE_LABELS[session.phase]} />
+        <Tile
+          label={session.cutoff ? `Until StopTime ${session.cutoff}` : "StopTime"}
+          value={session.secondsToCutoff === null ? "—" : session.secondsToCutoff > 0 ? formatCountdown(session.secondsToCutoff) : "Passed"}
+        />
+        <StatusChip status={session.stopStatus} title={session.reason}>{session.stopStatus}</StatusChip>
+      </div>
+      <p className="text-xs text-gray-400">{session.reason}</p>
+      {gaps.length > 0 && (
+        <p className="text-sm text-yellow-400">
+          ⚠️ The holiday calendar has no entries for {gaps.join(" or ")}, so every weekday then counts as a trading day.{" "}
+          {builtIn.length > 0 && (
+            <button
+              onClick={() => onHolidaysChange([...holidays.filter(h => !builtIn.some(b => b.date === h.date)), ...builtIn].sort((a, b) => a.date.localeCompare(b.date)))}
+              className="text-blue-400 hover:text-blue-300 underline"
+            >
+              Add the built-in NYSE dates
+            </button>
+          )}
+        </p>
+      )}
+
+      {showHolidays && (
+        <div className="space-y-3 border-t border-gray-600 pt-3">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+            <input className="input" type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} />
+            <input className="input" placeholder="Holiday name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            <input className="input" type="time" title="Early close (leave blank for a full closure)" value={draft.earlyClose ?? ""}
+              onChange={(e) => setDraft({ ...draft, earlyClose: e.target.value || undefined })} />
+            <button onClick={addHoliday} className="btn btn-primary">Add / Update</button>
+          </div>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-gray-400">No upcoming holidays in the calendar.</p>
+          ) : (
+            <ul className="text-sm space-y-1">
+              {upcoming.map(h => (
+                <li key={h.date} className="flex items-center justify-between gap-2">
+                  <span>{h.date} · {h.name}{h.earlyClose ? ` · closes ${h.earlyClose} ET` : " · closed"}</span>
+                  <button onClick={() => onHolidaysChange(holidays.filter(x => x.date !== h.date))} className="text-gray-400 hover:text-red-400" title="Remove">✕</button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function Tile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 rounded-xl bg-gray-700 border border-gray-600" style={{ backgroundColor: '#374151', borderColor: '#4b5563' }}>
+      <div className="text-xs text-gray-400" style={{ color: '#9ca3af' }}>{label}</div>
+      <div className="text-base font-semibold font-mono">{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+import { useState } from "react";
+import { dollars, pct } from "@/lib/calc";
+import { rollingDrawdown, todayKey, type JournalEntry } from "@/lib/journal";
+import { LineChart } from "@/components/line-chart";
+
+export function SessionJournal({ entries, onClose, onDelete }: {
+  entries: JournalEntry[];       // Active account only, oldest first
+  onClose: (date: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [date, setDate] = useState(todayKey());
+  const points = rollingDrawdown(entries);
+  const labels = points.map(p => p.date.slice(5));
+  const alreadyClosed = entries.some(e => e.date === date);
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Session Journal</h2>
+        <div className="flex items-center gap-3">
+          <input className="input" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          <button
+            className="btn btn-primary whitespace-nowrap"
+            disabled={!date}
+            onClick={() => (!alreadyClosed || window.confirm(`Replace the journal entry for ${date}?`)) && onClose(date)}
+          >
+            Close Session
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-400">
+        Closing a session records today&apos;s equity, P&L and any Caution/Danger statuses, carries equity forward as tomorrow&apos;s prior equity, and resets the intraday inputs.
+      </p>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-400">No sessions recorded for this account yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">Equity Curve</h3>
+              <LineChart
+                labels={labels}
+                format={dollars}
+                series={[
+                  { label: "Equity", color: "#3b82f6", values: points.map(p => p.equity) },
+                  { label: "Peak", color: "#6b7280", values: points.map(p => p.peak), dashed: true },
+                ]}
+              />
+            </div>
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">Drawdown vs TotalLossLimit</h3>
+              <LineChart
+                labels={labels}
+                format={(n) => pct(n, 1)}
+                series={[{ label: "Drawdown from peak", color: "#fbbf24", values: points.map(p => p.drawdown) }]}
+                dangerBelow={points.map(p => p.limit)}
+              />
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 text-xs">
+                  <th className="p-2">Date</th>
+                  <th className="p-2">Mode</th>
+                  <th className="p-2 text-right">Equity</th>
+                  <th className="p-2 text-right">P&L</th>
+                  <th className="p-2 text-right">Halted</th>
+                  <th className="p-2">Caution / Danger</th>
+                  <th className="p-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...entries].reverse().map(e => (
+                  <tr key={e.id} className="border-t border-gray-700">
+                    <td className="p-2">{e.date}</td>
+                    <td className="p-2">{e.mode}</td>
+                    <td className="p-2 text-right">{dollars(e.equity)}</td>
+                    <td className={"p-2 text-right " + (e.pnl < 0 ? "text-danger" : "text-safe")}>{dollars(e.pnl)}</td>
+                    <td className="p-2 text-right">{dollars(e.haltedExposure)}</td>
+                    <td className="p-2 text-xs">
+                      {e.breaches.length === 0 && !e.flattened ? <span className="text-safe">None</span> : (
+                        <>
+                          {e.breaches.map(b => (
+                            <span key={b.check} className={"mr-2 " + (b.status === "Danger" ? "text-danger" : "text-caution")}>{b.check}</span>
+                          ))}
+                          {e.flattened && <span className="text-danger font-semibold">Flatten</span>}
+                        </>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      <button onClick={() => onDelete(e.id)} className="text-gray-400 hover:text-red-400" title="Remove">✕</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+import { useMemo, useState } from "react";
+import { PRESET_MAP, dollars, type Mode, type RiskSettings } from "@/lib/calc";
+import { parseCfg } from "@/lib/cfg";
+import { diffSettings, formatSetting, type FieldDiff } from "@/lib/diff";
+import { type NamedPreset } from "@/lib/presets";
+
+const MODES: Mode[] = ["Conservative", "Standard", "Aggressive", "Custom"];
+
+function directionClass(d: FieldDiff) {
+  return d.direction === "looser" ? "text-danger" : d.direction === "tighter" ? "text-safe" : "text-gray-400";
+}
+
+export function SettingsDiff({ current, currentLabel, equity, presets }: {
+  current: RiskSettings;
+  currentLabel: string;
+  equity: number;
+  presets: NamedPreset[];
+}) {
+  // "mode:Standard", "preset:<id>" or "cfg"
+  const [source, setSource] = useState("mode:Standard");
+  const [cfgText, setCfgText] = useState("");
+  const [changesOnly, setChangesOnly] = useState(false);
+
+  const baseline = useMemo((): { settings: RiskSettings; label: string; errors: number } | null => {
+    if (source.startsWith("mode:")) {
+      const mode = source.slice(5) as Mode;
+      return { settings: PRESET_MAP[mode], label: mode, errors: 0 };
+    }
+    if (source.startsWith("preset:")) {
+      const preset = presets.find(p => p.id === source.slice(7));
+      return preset ? { settings: preset.settings, label: preset.name, errors: 0 } : null;
+    }
+    if (!cfgText.trim()) return null;
+    const parsed = parseCfg(cfgText, equity);
+    return {
+      settings: parsed.settings,
+      label: parsed.preset ?? parsed.mode ?? "Exported cfg",
+      errors: parsed.diagnostics.filter(d => d.severity === "error").length,
+    };
+  }, [source, presets, cfgText, equity]);
+
+  const rows = baseline ? diffSettings(current, baseline.settings, equity) : [];
+  const shown = changesOnly ? rows.filter(r => r.direction !== "same") : rows;
+  const looser = rows.filter(r => r.direction === "looser").length;
+  const tighter = rows.filter(r => r.direction === "tighter").length;
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setCfgText(await file.text());
+    e.target.value = "";
+  }
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-4" style={{ backgroundColor: '#1f2937', borderColor: '#374151', color: '#ffffff' }}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h2 className="text-lg font-semibold">Compare Settings</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <span className="text-sm text-gray-400">Baseline:</span>
+          <select className="input" style={{ width: 'auto' }} value={source} onChange={(e) => setSource(e.target.value)}>
+            <optgroup label="Built-in modes">
+              {MODES.map(m => <option key={m} value={`mode:${m}`}>{m}</option>)}
+            </optgroup>
+            {presets.length > 0 && (
+              <optgroup label="Custom presets">
+                {presets.map(p => <option key={p.id} value={`preset:${p.id}`}>{p.name}</option>)}
+              </optgroup>
+            )}
+            <option value="cfg">Exported RiskControl.cfg…</option>
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={changesOnly} onChange={(e) => setChangesOnly(e.target.checked)} />
+            Changes only
+          </label>
+        </div>
+      </div>
+
+      {source === "cfg" && (
+        <div className="space-y-2">
+          <textarea
+            className="input font-mono text-xs"
+            rows={5}
+            placeholder="Paste a previously exported RiskControl.cfg"
+            value={cfgText}
+            onChange={(e) => setCfgText(e.target.value)}
+          />
+          <label className="text-sm text-blue-400 hover:text-blue-300 underline cursor-pointer">
+            Choose file…
+            <input type="file" accept=".cfg,.txt,text/plain" className="hidden" onChange={onFile} />
+          </label>
+          {baseline && baseline.errors > 0 && (
+            <p className="text-xs text-caution">{baseline.errors} line(s) could not be read; those fields fall back to Custom defaults. Use Import RiskControl.cfg for details.</p>
+          )}
+        </div>
+      )}
+
+      {baseline && (
+        <>
+          <p className="text-sm text-gray-300">
+            <b>{currentLabel}</b> vs <b>{baseline.label}</b> at {dollars(equity)} equity:{" "}
+            <span className="text-danger">{looser} looser</span>, <span className="text-safe">{tighter} tighter</span>, {rows.length - looser - tighter} unchanged
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 text-xs">
+                  <th className="p-2">Setting</th>
+                  <th className="p-2">DAS Key</th>
+                  <th className="p-2 text-right">{baseline.label}</th>
+                  <th className="p-2 text-right">Current</th>
+                  <th className="p-2 text-right">{baseline.label} ($)</th>
+                  <th className="p-2 text-right">Current ($)</th>
+                  <th className="p-2">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(d => (
+                  <tr key={d.field} className={"border-t border-gray-700 " + (d.direction !== "same" ? "bg-gray-700/30" : "")}>
+                    <td className="p-2">{d.label}</td>
+                    <td className="p-2 font-mono text-xs text-gray-400">{d.cfgKey}</td>
+                    <td className="p-2 text-right">{formatSetting(d, d.baseline)}</td>
+                    <td className="p-2 text-right">{formatSetting(d, d.current)}</td>
+                    <td className="p-2 text-right">{d.baselineDollars === null ? "—" : dollars(d.baselineDollars)}</td>
+                    <td className="p-2 text-right">{d.currentDollars === null ? "—" : dollars(d.currentDollars)}</td>
+                    <td className={"p-2 font-semibold " + directionClass(d)}>
+                      {d.direction === "looser" ? "▲ Looser" : d.direction === "tighter" ? "▼ Tighter" : "="}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { dollars } from "@/lib/calc";
+import { type DasConnectionState, type DasStatus } from "@/lib/das-cmd";
+import { type AccountSnapshot } from "@/lib/snapshot";
+
+export const SNAPSHOT_URL = "/api/snapshot";
+
+export interface FeedState {
+  connected: boolean;
+  last: AccountSnapshot | null;
+  applied: string | null;        // Account the last snapshot was applied to; null when it matched none
+  das: DasStatus | null;         // The server's DAS connection, once the stream has reported it
+}
+
+/**
+ * Listen to the snapshot stream while `enabled`. `apply` returns the name of
+ * the account it updated, or null when the snapshot names no known account.
+ * EventSource reconnects on its own after the server goes away.
+ */
+export function useSnapshotFeed(enabled: boolean, apply: (snapshot: AccountSnapshot) => string | null): FeedState {
+  const [feed, setFeed] = useState<FeedState>({ connected: false, last: null, applied: null, das: null });
+  const latest = useRef(apply);
+  latest.current = apply;
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") return;
+    const source = new EventSource(SNAPSHOT_URL);
+    source.onopen = () => setFeed(f => ({ ...f, connected: true }));
+    source.onerror = () => setFeed(f => ({ ...f, connected: false }));
+    source.addEventListener("snapshot", (e) => {
+      const snapshot = JSON.parse((e as MessageEvent<string>).data) as AccountSnapshot;
+      const applied = latest.current(snapshot);
+      setFeed(f => ({ ...f, connected: true, last: snapshot, applied }));
+    });
+    source.addEventListener("das-status", (e) => {
+      const das = JSON.parse((e as MessageEvent<string>).data) as DasStatus;
+      setFeed(f => ({ ...f, das }));
+    });
+    return () => {
+      source.close();
+      setFeed(f => ({ ...f, connected: false }));
+    };
+  }, [enabled]);
+
+  return feed;
+}
+
+const DAS_LABEL: Record<DasConnectionState, { text: string; className: string }> = {
+  disabled: { text: "DAS not configured", className: "text-gray-400" },
+  connecting: { text: "DAS connecting", className: "text-caution" },
+  authenticating: { text: "DAS logging in", className: "text-caution" },
+  connected: { text: "DAS connected", className: "text-safe" },
+  retrying: { text: "DAS disconnected", className: "text-danger" },
+};
+
+function DasIndicator({ status }: { status: DasStatus }) {
+  const label = DAS_LABEL[status.state];
+  return (
+    <span className={"text-xs " + label.className} title={`${status.endpoint ? status.endpoint + " · " : ""}${status.detail}`}>
+      ● {label.text}{status.state === "retrying" && ` · ${status.detail}`}
+    </span>
+  );
+}
+
+function summary(s: AccountSnapshot): string {
+  const parts = [
+    s.equity !== undefined && `equity ${dollars(s.equity)}`,
+    s.realizedPnL !== undefined && `realized ${dollars(s.realizedPnL)}`,
+    s.positions !== undefined ? `${s.positions.length} positions` : s.unrealizedPnL !== undefined && `unrealized ${dollars(s.unrealizedPnL)}`,
+    s.haltedExposure !== undefined && `halted ${dollars(s.haltedExposure)}`,
+    s.tradeCount !== undefined && `${s.tradeCount} trades`,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+export function FeedStatus({ feed, enabled, onToggle }: { feed: FeedState; enabled: boolean; onToggle: (enabled: boolean) => void }) {
+  const { connected, last, applied, das } = feed;
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+      <label className="flex items-center gap-2 text-gray-300">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)} />
+        Apply live feed
+      </label>
+      {enabled && (
+        <span className={connected ? "text-safe" : "text-gray-400"}>
+          {connected ? "● Listening on POST " + SNAPSHOT_URL : "○ Connecting…"}
+        </span>
+      )}
+      {enabled && das && <DasIndicator status={das} />}
+      {last && (
+        <span className="text-xs text-gray-400">
+          Last update {new Date(last.receivedAt).toLocaleTimeString()}
+          {applied ? ` → ${applied}: ${summary(last)}` : ` ignored: no account named "${last.account}"`}
+        </span>
+      )}
+    </div>
+  );
+}
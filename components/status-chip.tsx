@@ -0,0 +1,18 @@
+import { type Status } from "@/lib/risk";
+import { cn } from "@/lib/utils";
+
+export function statusColor(s: Status) {
+  return s === "Danger" ? "bg-danger" : s === "Caution" ? "bg-caution" : "bg-safe";
+}
+
+export function statusIcon(s: Status) {
+  return s === "Danger" ? "🔴" : s === "Caution" ? "🟡" : "🟢";
+}
+
+export function StatusChip({ status, title, className, children }: { status: Status; title?: string; className?: string; children?: React.ReactNode }) {
+  return (
+    <div title={title} className={cn("rounded-full px-2.5 py-0.5 text-xs font-medium text-center", statusColor(status), className)}>
+      {statusIcon(status)} {children ?? status}
+    </div>
+  );
+}
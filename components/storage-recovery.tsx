@@ -0,0 +1,28 @@
+"use client";
+import { type LoadReport } from "@/lib/persisted-state";
+import { downloadText } from "@/lib/utils";
+
+// Shown after a load that had to reset or drop saved values
+export function StorageRecovery({ report, onDismiss }: { report: LoadReport; onDismiss: () => void }) {
+  function downloadBackup() {
+    const text = report.backupKey ? localStorage.getItem(report.backupKey) : null;
+    if (text !== null) downloadText("cobra_state_backup.json", text);
+  }
+
+  return (
+    <section className="card p-4 sm:p-6 space-y-3" style={{ backgroundColor: '#1f2937', borderColor: '#eab308', color: '#ffffff' }}>
+      <h2 className="text-lg font-semibold text-caution">Some saved data could not be read</h2>
+      <p className="text-sm text-gray-300">
+        The dashboard loaded everything it could and reset the rest to defaults.
+        {report.backupKey && " A copy of the original saved data was kept so nothing is lost."}
+      </p>
+      <ul className="text-xs text-gray-400 space-y-1 max-h-40 overflow-y-auto list-disc list-inside">
+        {report.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+      </ul>
+      <div className="flex items-center gap-4">
+        {report.backupKey && <button onClick={downloadBackup} className="btn btn-primary">Download Backup</button>}
+        <button onClick={onDismiss} className="text-sm text-blue-400 hover:text-blue-300 underline">Dismiss</button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+import { type SyncConflict } from "@/lib/sync";
+
+function preview(value: unknown): string {
+  if (value === undefined) return "(deleted)";
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// Fields this tab and another tab changed at the same time; the other tab's values were kept
+export function SyncNotice({ conflicts, onDismiss }: { conflicts: SyncConflict[]; onDismiss: () => void }) {
+  return (
+    <section className="card p-4 sm:p-6 space-y-3" style={{ backgroundColor: '#1f2937', borderColor: '#eab308', color: '#ffffff' }}>
+      <h2 className="text-lg font-semibold text-caution">Changed in another window</h2>
+      <p className="text-sm text-gray-300">
+        These values were edited here and in another tab at the same time. The other tab saved first, so its values are now shown here.
+      </p>
+      <ul className="text-xs text-gray-400 space-y-1 max-h-40 overflow-y-auto list-disc list-inside">
+        {conflicts.map((c, i) => (
+          <li key={i}>
+            {c.label}: kept <span className="font-mono text-gray-200">{preview(c.kept)}</span>, replaced <span className="font-mono">{preview(c.discarded)}</span>
+          </li>
+        ))}
+      </ul>
+      <button onClick={onDismiss} className="text-sm text-blue-400 hover:text-blue-300 underline">Dismiss</button>
+    </section>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+import { type StatusThresholds } from "@/lib/calc";
+import { validateThresholds } from "@/lib/validation";
+
+const FIELDS: { field: keyof StatusThresholds; label: string; hint: string }[] = [
+  { field: "drawdownCaution", label: "Drawdown Caution (%)", hint: "Equity down this far vs prior equity turns the drawdown chip Caution" },
+  { field: "drawdownDanger", label: "Drawdown Danger (%)", hint: "Equity down this far vs prior equity turns the drawdown chip Danger" },
+  { field: "lossCaution", label: "Loss Used Caution (%)", hint: "Share of the daily and total loss limits used before those chips turn Caution" },
+  { field: "lossDanger", label: "Loss Used Danger (%)", hint: "Share of the daily and total loss limits used before those chips turn Danger" },
+  { field: "haltedCaution", label: "Halted Exposure Caution (%)", hint: "Halted exposure as a share of equity before the chip turns Caution" },
+  { field: "haltedDanger", label: "Halted Exposure Danger (%)", hint: "Halted exposure as a share of equity before the chip turns Danger" },
+  { field: "flattenLoss", label: "Flatten at Loss Used (%)", hint: "Recommend flattening once this share of the loss budget (DayLossLimit, else TotalLossLimit) is used" },
+  { field: "flattenHalted", label: "Flatten at Halted Exposure (%)", hint: "Recommend flattening once halted exposure passes this share of equity" },
+];
+
+export function ThresholdSettings({ thresholds, onChange }: {
+  thresholds: StatusThresholds;
+  onChange: (thresholds: StatusThresholds) => void;
+}) {
+  const issues = validateThresholds(thresholds);
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-gray-600">
+      <div>
+        <h3 className="text-md font-semibold text-gray-100">Status Thresholds</h3>
+        <p className="text-xs text-gray-400">Where the Status chips turn Caution and Danger. Dashboard only; not written to RiskControl.cfg.</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {FIELDS.map(({ field, label, hint }) => {
+          const fieldIssues = issues.filter(i => i.field === field);
+          const hasError = fieldIssues.some(i => i.severity === "error");
+          return (
+            <div key={field}>
+              <label className="text-sm text-gray-300" title={hint}>{label}</label>
+              <input
+                className={"input" + (hasError ? " input-error" : fieldIssues.length > 0 ? " input-warning" : "")}
+                type="number"
+                step="1"
+                min="0"
+                value={Math.round(thresholds[field] * 1000) / 10}
+                onChange={(e) => onChange({ ...thresholds, [field]: Number(e.target.value) / 100 })}
+              />
+              {fieldIssues.map((issue, i) => (
+                <p key={i} className={(issue.severity === "error" ? "text-red-400" : "text-yellow-400") + " text-xs mt-1"}>{issue.message}</p>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
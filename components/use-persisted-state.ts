@@ -0,0 +1,62 @@
+"use client";
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from "react";
+import { STATE_KEY, emptyState, loadState, parseState, saveState, type LoadReport, type PersistedState } from "@/lib/persisted-state";
+import { deepEqual, mergeStates, type SyncConflict } from "@/lib/sync";
+
+/**
+ * The whole persisted-state document, loaded (and migrated) once after mount and
+ * saved on every change. Writes from other tabs arrive as storage events and are
+ * merged against `base`, the last document this tab saved or received, so edits
+ * to different fields survive and only same-field collisions are reported.
+ * A `readOnly` view (the strip) migrates in memory and follows other tabs but
+ * never writes: not the document, and not the backup of one it cannot read.
+ */
+export function usePersistedState({ readOnly = false } = {}) {
+  const [state, setState] = useState<PersistedState>(emptyState);
+  const [report, setReport] = useState<LoadReport | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const base = useRef<PersistedState | null>(null);
+  const latest = useRef(state);
+  latest.current = state;
+
+  useEffect(() => {
+    const loaded = loadState(localStorage, !readOnly);
+    setState(loaded.state);
+    setReport(loaded.report);
+    setIsHydrated(true);
+  }, [readOnly]);
+
+  useEffect(() => {
+    // Skipping unchanged documents keeps two tabs from echoing a merge back and forth
+    if (!isHydrated || readOnly || (base.current && deepEqual(state, base.current))) return;
+    saveState(localStorage, state);
+    base.current = state;
+  }, [state, isHydrated, readOnly]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    function onStorage(e: StorageEvent) {
+      if (e.key !== STATE_KEY || e.newValue === null) return;
+      const remote = parseState(e.newValue);
+      if (!remote) return;
+      const merged = mergeStates(base.current ?? latest.current, latest.current, remote);
+      // The active account is per tab, so it never counts as a change to write back
+      base.current = { ...remote, activeProfileId: merged.state.activeProfileId };
+      setState(merged.state);
+      if (merged.conflicts.length > 0) setConflicts(c => [...c, ...merged.conflicts]);
+    }
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [isHydrated]);
+
+  return [state, setState, isHydrated, report, conflicts, setConflicts] as const;
+}
+
+// Setter for one field of the document, with the same functional-update form as useState
+export function useStateField<K extends keyof PersistedState>(setState: Dispatch<SetStateAction<PersistedState>>, key: K) {
+  return useCallback((update: SetStateAction<PersistedState[K]>) => setState(s => ({
+    ...s,
+    [key]: typeof update === "function" ? (update as (prev: PersistedState[K]) => PersistedState[K])(s[key]) : update,
+  })), [setState, key]);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { detectCrossings, levelsOf, type AlertSignal } from "@/lib/alerts";
+import { type Status } from "@/lib/risk";
+
+const signal = (status: Status): AlertSignal => ({ key: "remaining", label: "Daily Loss Budget", status, detail: "" });
+
+// Feed statuses through in order, carrying the levels forward as useRiskAlerts does; returns what fired at each step
+function replay(statuses: Status[]): string[] {
+  let previous: Record<string, Status> = {};
+  return statuses.map(status => {
+    const signals = [signal(status)];
+    const fired = detectCrossings(previous, signals).map(s => s.status).join();
+    previous = levelsOf(signals);
+    return fired;
+  });
+}
+
+describe("detectCrossings", () => {
+  it("fires once on a crossing and stays silent while the status holds", () => {
+    expect(replay(["Safe", "Caution", "Caution", "Caution"])).toEqual(["", "Caution", "", ""]);
+  });
+
+  it("fires again on the way up to Danger, but not on the way down", () => {
+    expect(replay(["Caution", "Danger", "Danger", "Caution"])).toEqual(["Caution", "Danger", "", ""]);
+  });
+
+  it("fires again after recovering to Safe and crossing anew", () => {
+    expect(replay(["Safe", "Danger", "Safe", "Safe", "Caution", "Danger"])).toEqual(["", "Danger", "", "", "Caution", "Danger"]);
+  });
+
+  it("tracks each key on its own", () => {
+    const previous = { drawdown: "Caution" as Status };
+    const fired = detectCrossings(previous, [
+      { key: "drawdown", label: "Drawdown", status: "Caution", detail: "" },
+      signal("Caution"),
+    ]);
+    expect(fired.map(s => s.key)).toEqual(["remaining"]);
+  });
+});
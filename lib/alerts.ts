@@ -0,0 +1,68 @@
+import { type RiskEvaluation, type Status } from "@/lib/risk";
+import { newId } from "@/lib/utils";
+
+export type AlertLevel = Exclude<Status, "Safe">;
+
+// One watched status, as of the latest evaluation
+export interface AlertSignal {
+  key: string;
+  label: string;
+  status: Status;
+  detail: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  key: string;
+  label: string;
+  level: AlertLevel;
+  detail: string;
+  firedAt: number;               // epoch ms
+  acknowledged: boolean;
+  snoozed: boolean;              // Logged while the key was snoozed; no notification or sound
+}
+
+export interface AlertPrefs {
+  desktop: boolean;              // Browser Notification API
+  sound: boolean;
+  snoozeMinutes: number;
+}
+
+export const DEFAULT_ALERT_PREFS: AlertPrefs = { desktop: true, sound: true, snoozeMinutes: 5 };
+
+const RANK: Record<Status, number> = { Safe: 0, Caution: 1, Danger: 2 };
+
+export function riskSignals(risk: RiskEvaluation): AlertSignal[] {
+  return [
+    { key: "drawdown", label: "Drawdown", status: risk.drawdownStatus, detail: risk.reasons.drawdown },
+    { key: "remaining", label: "Daily Loss Budget", status: risk.remainingStatus, detail: risk.reasons.remaining },
+    { key: "halted", label: "Halted Exposure", status: risk.haltedStatus, detail: risk.reasons.halted },
+    { key: "flatten", label: "Flatten Now", status: risk.flattenNow ? "Danger" : "Safe", detail: risk.reasons.flatten },
+  ];
+}
+
+/**
+ * Signals that moved up a level since `previous` (Safe → Caution, Caution →
+ * Danger, Safe → Danger). Staying at a level or easing off never fires, which
+ * is what keeps an alert from repeating on every render.
+ */
+export function detectCrossings(previous: Record<string, Status>, signals: AlertSignal[]): AlertSignal[] {
+  return signals.filter(s => s.status !== "Safe" && RANK[s.status] > RANK[previous[s.key] ?? "Safe"]);
+}
+
+export function levelsOf(signals: AlertSignal[]): Record<string, Status> {
+  return Object.fromEntries(signals.map(s => [s.key, s.status]));
+}
+
+export function toEvent(signal: AlertSignal, now: number, snoozed: boolean): AlertEvent {
+  return {
+    id: newId(),
+    key: signal.key,
+    label: signal.label,
+    level: signal.status as AlertLevel,
+    detail: signal.detail,
+    firedAt: now,
+    acknowledged: false,
+    snoozed,
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_THRESHOLDS, PRESET_MAP } from "@/lib/calc";
+import { DEFAULT_AUDIT_PREFS, auditChanges, needsReason, type AuditSnapshot } from "@/lib/audit";
+
+const base: AuditSnapshot = {
+  profileId: "p1",
+  account: "Main Account",
+  modeLabel: "Custom",
+  settings: { ...PRESET_MAP.Custom, totalLossLimit: 0.05 },
+  thresholds: DEFAULT_THRESHOLDS,
+  equity: 50_000,
+};
+
+describe("auditChanges", () => {
+  it("logs equity without holding it for a reason", () => {
+    expect(auditChanges(base, { ...base, equity: 80_000 })).toEqual([
+      { profileId: "p1", account: "Main Account", kind: "equity", field: "Equity", before: "$50,000", after: "$80,000", loosened: false },
+    ]);
+  });
+
+  it("flags a looser Custom setting", () => {
+    const [change] = auditChanges(base, { ...base, settings: { ...base.settings, totalLossLimit: 0.08 } });
+    expect(change).toMatchObject({ kind: "settings", loosened: true });
+  });
+
+  it("logs each status threshold edit, raised bands as looser", () => {
+    const thresholds = { ...DEFAULT_THRESHOLDS, flattenLoss: DEFAULT_THRESHOLDS.flattenLoss + 0.05, lossCaution: DEFAULT_THRESHOLDS.lossCaution - 0.1 };
+    const changes = auditChanges(base, { ...base, thresholds });
+    expect(changes.map(c => [c.kind, c.field, c.loosened])).toEqual([
+      ["settings", "Loss Used Caution", false],
+      ["settings", "Flatten at Loss Used", true],
+    ]);
+  });
+
+  it("counts looser thresholds toward a mode switch", () => {
+    const [change] = auditChanges(base, { ...base, modeLabel: "Scalper", thresholds: { ...DEFAULT_THRESHOLDS, haltedDanger: 0.5 } });
+    expect(change).toMatchObject({ kind: "mode", before: "Custom", after: "Scalper", loosened: true });
+  });
+});
+
+describe("needsReason", () => {
+  const looser = auditChanges(base, { ...base, settings: { ...base.settings, totalLossLimit: 0.08 } });
+  const tighter = auditChanges(base, { ...base, settings: { ...base.settings, totalLossLimit: 0.03 } });
+
+  it("lets loosened limits through without a reason by default", () => {
+    expect(DEFAULT_AUDIT_PREFS.requireReason).toBe(false);
+    expect(needsReason(looser, DEFAULT_AUDIT_PREFS)).toBe(false);
+  });
+
+  it("holds only loosening changes once a reason is required", () => {
+    const prefs = { requireReason: true };
+    expect(needsReason(looser, prefs)).toBe(true);
+    expect(needsReason(tighter, prefs)).toBe(false);
+    expect(needsReason(auditChanges(base, { ...base, equity: 80_000 }), prefs)).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import { dollars, pct, type RiskSettings, type StatusThresholds } from "@/lib/calc";
+import { diffSettings, formatSetting, settingLabel } from "@/lib/diff";
+import { SCALED_FIELDS, describeClamps, describeTiers, scaleLimits } from "@/lib/tiers";
+import { newId } from "@/lib/utils";
+
+export type AuditKind = "mode" | "settings" | "equity" | "export";
+
+export const AUDIT_KINDS: { kind: AuditKind; label: string }[] = [
+  { kind: "mode", label: "Mode change" },
+  { kind: "settings", label: "Custom setting" },
+  { kind: "equity", label: "Equity" },
+  { kind: "export", label: "Cfg export" },
+];
+
+// One line of the change log. Entries are only ever appended, never edited or removed.
+export interface AuditEntry {
+  id: string;
+  at: string;                    // ISO timestamp
+  profileId: string;
+  account: string;               // Account name at the time, so the line still reads after a rename or delete
+  kind: AuditKind;
+  field: string;                 // Setting label, "Risk mode", "Equity" or the exported file name
+  before: string;
+  after: string;
+  loosened: boolean;             // The change gives the trader more room
+  reason: string;
+}
+
+export type AuditChange = Omit<AuditEntry, "id" | "at" | "reason">;
+
+// Off by default: loosening changes are logged as they happen, flagged but without a note
+export interface AuditPrefs {
+  requireReason: boolean;        // Hold changes that loosen a limit until a reason is noted or they are reverted
+}
+
+export const DEFAULT_AUDIT_PREFS: AuditPrefs = { requireReason: false };
+
+export function needsReason(changes: AuditChange[], prefs: AuditPrefs): boolean {
+  return prefs.requireReason && changes.some(c => c.loosened);
+}
+
+// The parts of an account the log watches, as the dashboard shows them
+export interface AuditSnapshot {
+  profileId: string;
+  account: string;
+  modeLabel: string;
+  settings: RiskSettings;        // Effective settings for the mode, preset or Custom slot
+  thresholds: StatusThresholds;  // Status bands that go with them
+  equity: number;
+}
+
+const THRESHOLD_LABELS: Record<keyof StatusThresholds, string> = {
+  drawdownCaution: "Drawdown Caution",
+  drawdownDanger: "Drawdown Danger",
+  lossCaution: "Loss Used Caution",
+  lossDanger: "Loss Used Danger",
+  haltedCaution: "Halted Exposure Caution",
+  haltedDanger: "Halted Exposure Danger",
+  flattenLoss: "Flatten at Loss Used",
+  flattenHalted: "Flatten at Halted Exposure",
+};
+
+// Every band is a point the dashboard warns or flattens at, so raising one gives more room
+function thresholdChanges(before: StatusThresholds, after: StatusThresholds): Pick<AuditChange, "field" | "before" | "after" | "loosened">[] {
+  return (Object.keys(THRESHOLD_LABELS) as (keyof StatusThresholds)[])
+    .filter(f => before[f] !== after[f])
+    .map(f => ({ field: THRESHOLD_LABELS[f], before: pct(before[f], 1), after: pct(after[f], 1), loosened: after[f] > before[f] }));
+}
+
+/**
+ * What changed between two snapshots of the same account. A mode or preset
+ * switch is one entry (loosened if any setting got looser); otherwise each
+ * edited setting and status threshold is its own entry, and so are the equity
+ * tier table and the dollar clamps. Equity is logged but never held for a
+ * reason: it is the account's balance, not a limit the trader chooses.
+ */
+export function auditChanges(before: AuditSnapshot, after: AuditSnapshot): AuditChange[] {
+  const account = { profileId: after.profileId, account: after.account };
+  const diffs = diffSettings(after.settings, before.settings, after.equity).filter(d => d.direction !== "same");
+  const scaling = scalingChanges(before.settings, after.settings, after.equity);
+  const thresholds = thresholdChanges(before.thresholds, after.thresholds);
+  const changes: AuditChange[] = [];
+
+  if (before.modeLabel !== after.modeLabel) {
+    const loosened = diffs.some(d => d.direction === "looser") || [...scaling, ...thresholds].some(c => c.loosened);
+    changes.push({ ...account, kind: "mode", field: "Risk mode", before: before.modeLabel, after: after.modeLabel, loosened });
+  } else {
+    for (const d of diffs) {
+      changes.push({ ...account, kind: "settings", field: d.label, before: formatSetting(d, d.baseline), after: formatSetting(d, d.current), loosened: d.direction === "looser" });
+    }
+    for (const c of [...scaling, ...thresholds]) changes.push({ ...account, kind: "settings", ...c });
+  }
+
+  if (before.equity !== after.equity) {
+    changes.push({ ...account, kind: "equity", field: "Equity", before: dollars(before.equity), after: dollars(after.equity), loosened: false });
+  }
+  return changes;
+}
+
+// Room a limit or cap leaves; 0 means none, the most room there is
+const room = (amount: number) => amount > 0 ? amount : Infinity;
+
+// Tiers act at many account sizes, so an edit loosens if any limit gets more room at the current equity or where a tier starts
+function tiersLoosened(before: RiskSettings, after: RiskSettings, equity: number): boolean {
+  const points = [equity, ...[...before.equityTiers, ...after.equityTiers].map(t => t.minEquity)];
+  return points.some(e => {
+    const a = scaleLimits(after, e), b = scaleLimits(before, e);
+    return SCALED_FIELDS.some(f => room(a[f].amount) > room(b[f].amount));
+  });
+}
+
+// A higher (or removed) cap or a higher floor loosens, whether or not it binds at today's equity
+function clampsLoosened(before: RiskSettings["dollarClamps"], after: RiskSettings["dollarClamps"]): boolean {
+  return SCALED_FIELDS.some(f => {
+    const a = after[f] ?? { min: 0, max: 0 }, b = before[f] ?? { min: 0, max: 0 };
+    return room(a.max) > room(b.max) || a.min > b.min;
+  });
+}
+
+function scalingChanges(before: RiskSettings, after: RiskSettings, equity: number): Pick<AuditChange, "field" | "before" | "after" | "loosened">[] {
+  const out = [];
+  const tiers = [describeTiers(before.equityTiers, settingLabel), describeTiers(after.equityTiers, settingLabel)];
+  if (tiers[0] !== tiers[1]) out.push({ field: "Equity tiers", before: tiers[0], after: tiers[1], loosened: tiersLoosened(before, { ...before, equityTiers: after.equityTiers }, equity) });
+  const clamps = [describeClamps(before.dollarClamps, settingLabel), describeClamps(after.dollarClamps, settingLabel)];
+  if (clamps[0] !== clamps[1]) out.push({ field: "Dollar clamps", before: clamps[0], after: clamps[1], loosened: clampsLoosened(before.dollarClamps, after.dollarClamps) });
+  return out;
+}
+
+export function exportChange(snapshot: AuditSnapshot, fileName: string): AuditChange {
+  return {
+    profileId: snapshot.profileId,
+    account: snapshot.account,
+    kind: "export",
+    field: fileName,
+    before: "",
+    after: `${snapshot.modeLabel} at ${dollars(snapshot.equity)}`,
+    loosened: false,
+  };
+}
+
+export function stampChanges(changes: AuditChange[], reason: string, now: Date = new Date()): AuditEntry[] {
+  return changes.map(c => ({ ...c, id: newId(), at: now.toISOString(), reason }));
+}
+
+export interface AuditFilter {
+  profileId: string | null;
+  kind: AuditKind | null;
+  loosenedOnly: boolean;
+  text: string;                  // Matched against field, values and reason, case-insensitively
+}
+
+export const EMPTY_AUDIT_FILTER: AuditFilter = { profileId: null, kind: null, loosenedOnly: false, text: "" };
+
+export function filterAudit(log: AuditEntry[], filter: AuditFilter): AuditEntry[] {
+  const text = filter.text.trim().toLowerCase();
+  return log.filter(e =>
+    (filter.profileId === null || e.profileId === filter.profileId) &&
+    (filter.kind === null || e.kind === filter.kind) &&
+    (!filter.loosenedOnly || e.loosened) &&
+    (text === "" || [e.account, e.field, e.before, e.after, e.reason].some(v => v.toLowerCase().includes(text)))
+  );
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = ["at", "account", "kind", "field", "before", "after", "loosened", "reason"];
+
+function csvCell(value: string | boolean): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function auditCsv(entries: AuditEntry[]): string {
+  const rows = entries.map(e => CSV_COLUMNS.map(c => csvCell(e[c])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
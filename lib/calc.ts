@@ -1,6 +1,20 @@
 
 export type Mode = "Conservative" | "Standard" | "Aggressive" | "Custom";
 
+// Settings DAS receives as dollars, so equity tiers and dollar clamps apply to them
+export type ScaledField = "dailyLossLimit" | "totalLossLimit" | "perSymbolLossLimit" | "perSymbolExposureLimit" | "totalExposureLimit" | "profitLockStart";
+
+export interface EquityTier {
+  minEquity: number;             // The band runs from here up to the next tier's minEquity
+  limits: Partial<Record<ScaledField, number>>; // Fractions of equity; fields left out keep the flat setting
+}
+
+// Dollar floor and cap on one limit, both positive; 0 leaves that side open
+export interface DollarClamp {
+  min: number;
+  max: number;
+}
+
 export interface RiskSettings {
   // Basic Risk Limits
   dailyLossLimit: number;        // DayLossLimit
@@ -24,8 +38,43 @@ export interface RiskSettings {
   maxOrderSize: number;          // Max order size
   maxDailyTrades: number;        // Max daily trades
   maxPositions: number;          // Max concurrent positions
+
+  // Equity Scaling
+  equityTiers: EquityTier[];     // Empty: the flat percentages above apply at every account size
+  dollarClamps: Partial<Record<ScaledField, DollarClamp>>;
 }
 
+// Where the Status chips turn Caution / Danger. Fractions, like RiskSettings.
+export interface StatusThresholds {
+  drawdownCaution: number;       // Equity down this far vs prior equity
+  drawdownDanger: number;
+  lossCaution: number;           // Share of the daily / total loss limit used
+  lossDanger: number;
+  haltedCaution: number;         // Halted exposure as a share of equity
+  haltedDanger: number;
+  flattenLoss: number;           // Flatten Now once this share of the daily loss limit is used
+  flattenHalted: number;         // ...or once halted exposure passes this share of equity
+}
+
+export const DEFAULT_THRESHOLDS: StatusThresholds = {
+  drawdownCaution: 0.05,
+  drawdownDanger: 0.10,
+  lossCaution: 0.5,
+  lossDanger: 0.8,
+  haltedCaution: 0.20,
+  haltedDanger: 0.40,
+  flattenLoss: 0.9,
+  flattenHalted: 0.40,
+};
+
+// The built-in modes share the desk defaults; Custom starts from them too
+export const THRESHOLD_MAP: Record<Mode, StatusThresholds> = {
+  Conservative: DEFAULT_THRESHOLDS,
+  Standard: DEFAULT_THRESHOLDS,
+  Aggressive: DEFAULT_THRESHOLDS,
+  Custom: DEFAULT_THRESHOLDS,
+};
+
 export const PRESET_MAP: Record<Mode, RiskSettings> = {
   Conservative: {
     dailyLossLimit: 0,           // Not used in simplified presets
@@ -43,6 +92,8 @@ export const PRESET_MAP: Record<Mode, RiskSettings> = {
     maxOrderSize: 5000,
     maxDailyTrades: 50,
     maxPositions: 5,
+    equityTiers: [],
+    dollarClamps: {},
   },
   Standard: {
     dailyLossLimit: 0,           // Not used in simplified presets
@@ -60,6 +111,8 @@ export const PRESET_MAP: Record<Mode, RiskSettings> = {
     maxOrderSize: 10000,
     maxDailyTrades: 100,
     maxPositions: 10,
+    equityTiers: [],
+    dollarClamps: {},
   },
   Aggressive: {
     dailyLossLimit: 0,           // Not used in simplified presets
@@ -77,6 +130,8 @@ export const PRESET_MAP: Record<Mode, RiskSettings> = {
     maxOrderSize: 25000,
     maxDailyTrades: 200,
     maxPositions: 20,
+    equityTiers: [],
+    dollarClamps: {},
   },
   Custom: {
     dailyLossLimit: 0,           // Start with no limits set
@@ -94,6 +149,8 @@ export const PRESET_MAP: Record<Mode, RiskSettings> = {
     maxOrderSize: 0,
     maxDailyTrades: 0,
     maxPositions: 0,
+    equityTiers: [],
+    dollarClamps: {},
   },
 };
 
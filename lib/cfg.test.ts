@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_MAP, type RiskSettings } from "@/lib/calc";
+import { buildCfg, parseCfg, type CfgImportResult } from "@/lib/cfg";
+
+const EQUITY = 100_000;
+
+// Diagnostics other than the "not present; left at default" notes
+const problems = (result: CfgImportResult) => result.diagnostics.filter(d => d.severity !== "info");
+
+describe("parseCfg", () => {
+  it("reads back a Custom cfg from buildCfg without diagnostics", () => {
+    const settings: RiskSettings = {
+      ...PRESET_MAP.Custom,
+      dailyLossLimit: 0.02, totalLossLimit: 0.05, perSymbolLossLimit: 0.01, perSymbolExposureLimit: 0.15, totalExposureLimit: 0.6,
+      profitLockStart: 0.04, profitLockDrawdown: 0.3, stopTime: "15:45", autoStopLoss: true, maxSharesPerPosition: 2_000, maxOrderSize: 500, maxDailyTrades: 40, maxPositions: 5,
+    };
+    const result = parseCfg(buildCfg(settings, EQUITY, "Custom", { account: "Main", preset: "Scalper" }), EQUITY);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.settings).toEqual(settings);
+    expect([result.mode, result.preset]).toEqual(["Custom", "Scalper"]);
+  });
+
+  it("warns when a dollar limit does not survive the trip through a percentage", () => {
+    const result = parseCfg("TotalLossLimit=-1234", 33_333);
+    expect(result.settings.totalLossLimit).toBe(0.037);
+    expect(problems(result)).toEqual([
+      { line: 1, severity: "warning", message: "TotalLossLimit=-1234 does not round-trip at equity 33333: stored as 3.70%, which exports as -1233" },
+    ]);
+  });
+
+  it("ignores unknown keys with a warning", () => {
+    expect(problems(parseCfg("# Mode: Custom\nMaxLeverage=4", EQUITY))).toEqual([
+      { line: 2, severity: "warning", message: 'Unknown key "MaxLeverage" ignored' },
+    ]);
+  });
+
+  it("reports malformed lines and bad values as errors, leaving the field alone", () => {
+    const result = parseCfg("JustText\n=5\nMaxPositions=three\nAutoStopLoss=2", EQUITY);
+    expect(problems(result)).toEqual([
+      { line: 1, severity: "error", message: 'Malformed line, expected Key=Value: "JustText"' },
+      { line: 2, severity: "error", message: 'Malformed line, expected Key=Value: "=5"' },
+      { line: 3, severity: "error", message: 'MaxPositions must be a number, got "three"' },
+      { line: 4, severity: "error", message: "AutoStopLoss must be 0 or 1, got 2" },
+    ]);
+    expect(result.settings.maxPositions).toBe(PRESET_MAP.Custom.maxPositions);
+    expect(result.settings.autoStopLoss).toBe(PRESET_MAP.Custom.autoStopLoss);
+  });
+
+  it("lets the last of duplicate keys win and says so", () => {
+    const result = parseCfg("MaxPositions=3\nMaxOrderSize=100\nMaxPositions=6", EQUITY);
+    expect(result.settings.maxPositions).toBe(6);
+    expect(problems(result)).toEqual([{ line: 3, severity: "warning", message: "MaxPositions also set on line 1; this value wins" }]);
+  });
+
+  it("treats a positive loss limit as the negative DAS expects", () => {
+    const result = parseCfg("DayLossLimit=2500", EQUITY);
+    expect(result.settings.dailyLossLimit).toBe(0.025);
+    expect(problems(result)).toEqual([
+      { line: 1, severity: "warning", message: "DayLossLimit is positive; DAS loss limits are negative, treated as -2500" },
+    ]);
+  });
+
+  it("cannot convert dollar limits without equity", () => {
+    const result = parseCfg("TotalLossLimit=-5000", 0);
+    expect(problems(result).map(d => d.message)).toEqual([
+      "Equity must be greater than 0 to convert dollar limits to percentages",
+      "TotalLossLimit skipped: no equity to convert -5000 against",
+    ]);
+  });
+});
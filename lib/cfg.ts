@@ -0,0 +1,272 @@
+import { PRESET_MAP, type Mode, type RiskSettings } from "@/lib/calc";
+import { computeLimits } from "@/lib/risk";
+import { fileSlug } from "@/lib/utils";
+import { validateSettings, type SettingsIssue } from "@/lib/validation";
+
+export type CfgSeverity = "error" | "warning" | "info";
+
+export interface CfgDiagnostic {
+  line: number;                  // 1-based line in the source text, 0 for whole-file notes
+  severity: CfgSeverity;
+  message: string;
+}
+
+export interface CfgImportResult {
+  settings: RiskSettings;
+  diagnostics: CfgDiagnostic[];
+  mode: string | null;           // From the "# Mode:" header, if present
+  preset: string | null;         // From the "# Preset:" header, if present
+}
+
+export interface CfgHeader {
+  account?: string;
+  preset?: string;               // Named custom preset the settings came from
+}
+
+// How each DAS key is stored in RiskControl.cfg
+type CfgKind =
+  | "loss"      // Negative dollars, stored in RiskSettings as a fraction of equity
+  | "value"     // Positive dollars, stored as a fraction of equity
+  | "percent"   // Whole-number percent, stored as a fraction
+  | "time"      // HH:MM
+  | "flag"      // 1 / 0
+  | "count";    // Non-negative integer
+
+type NumericField = { [K in keyof RiskSettings]: RiskSettings[K] extends number ? K : never }[keyof RiskSettings];
+type FlagField = { [K in keyof RiskSettings]: RiskSettings[K] extends boolean ? K : never }[keyof RiskSettings];
+
+interface CfgKeySpec {
+  field: keyof RiskSettings;
+  kind: CfgKind;
+}
+
+const CFG_KEYS: Record<string, CfgKeySpec> = {
+  DayLossLimit: { field: "dailyLossLimit", kind: "loss" },
+  TotalLossLimit: { field: "totalLossLimit", kind: "loss" },
+  PosUnrealLossLimit: { field: "perSymbolLossLimit", kind: "loss" },
+  PosMktValueLimit: { field: "perSymbolExposureLimit", kind: "value" },
+  OpenPosValueLimit: { field: "totalExposureLimit", kind: "value" },
+  ProfitLockStart: { field: "profitLockStart", kind: "value" },
+  "ProfitLockDrawdown%": { field: "profitLockDrawdown", kind: "percent" },
+  StopTime: { field: "stopTime", kind: "time" },
+  AutoStopLoss: { field: "autoStopLoss", kind: "flag" },
+  DisableNewOrders: { field: "disableNewOrders", kind: "flag" },
+  LiquidateAllPositions: { field: "liquidateAllPositions", kind: "flag" },
+  MaxSharesPerPosition: { field: "maxSharesPerPosition", kind: "count" },
+  MaxOrderSize: { field: "maxOrderSize", kind: "count" },
+  MaxDailyTrades: { field: "maxDailyTrades", kind: "count" },
+  MaxPositions: { field: "maxPositions", kind: "count" },
+};
+
+// Everything one account's RiskControl.cfg is built from
+export interface CfgSpec {
+  account: string;
+  mode: Mode;
+  settings: RiskSettings;
+  equity: number;
+  preset?: string;               // Named Custom preset, noted in the header
+}
+
+export interface RenderedCfg {
+  fileName: string;
+  text: string | null;           // null when the settings have errors and no file should be written
+  issues: SettingsIssue[];
+}
+
+export function cfgFileName(account: string): string {
+  const slug = fileSlug(account);
+  return slug ? `RiskControl_${slug}.cfg` : "RiskControl.cfg";
+}
+
+// Validate and build one account's file; the dashboard, /api/cfg and the roster CLI all go through here
+export function renderCfg(spec: CfgSpec): RenderedCfg {
+  const { issues, hasErrors } = validateSettings(spec.settings, spec.equity);
+  return {
+    fileName: cfgFileName(spec.account),
+    text: hasErrors ? null : buildCfg(spec.settings, spec.equity, spec.mode, { account: spec.account || undefined, preset: spec.preset }),
+    issues,
+  };
+}
+
+/**
+ * Build the DAS RiskControl.cfg text for a mode at the given equity.
+ * Presets only carry the essential limits; Custom mode writes every setting.
+ */
+export function buildCfg(settings: RiskSettings, equity: number, mode: Mode, header: CfgHeader = {}): string {
+  const limits = computeLimits(settings, equity);
+
+  const basicSettings = [
+    `# DAS Risk Control Configuration`,
+    `# Generated by COBRA Risk Dashboard`,
+    ...(header.account ? [`# Account: ${header.account}`] : []),
+    `# Mode: ${mode}`,
+    ...(header.preset ? [`# Preset: ${header.preset}`] : []),
+    ``,
+    `# Essential Risk Limits`,
+    `TotalLossLimit=${Math.round(limits.totalLossLimit)}`,
+    `PosUnrealLossLimit=${Math.round(limits.perSymbolLimit)}`,
+    `PosMktValueLimit=${Math.round(limits.perTickerExposure)}`,
+    `OpenPosValueLimit=${Math.round(limits.totalExposure)}`,
+    `ProfitLockStart=${Math.round(limits.profitLockStart)}`,
+  ];
+
+  const advancedSettings = [
+    ``,
+    `# Additional Risk Limits`,
+    `DayLossLimit=${Math.round(limits.dayLossLimit)}`,
+    ``,
+    `# Profit Protection`,
+    `ProfitLockDrawdown%=${Math.round(limits.profitLockDrawdown*100)}`,
+    ``,
+    `# Trading Controls`,
+    `StopTime=${settings.stopTime}`,
+    `AutoStopLoss=${settings.autoStopLoss ? 1 : 0}`,
+    `DisableNewOrders=${settings.disableNewOrders ? 1 : 0}`,
+    `LiquidateAllPositions=${settings.liquidateAllPositions ? 1 : 0}`,
+    ``,
+    `# Advanced Controls`,
+    `MaxSharesPerPosition=${settings.maxSharesPerPosition}`,
+    `MaxOrderSize=${settings.maxOrderSize}`,
+    `MaxDailyTrades=${settings.maxDailyTrades}`,
+    `MaxPositions=${settings.maxPositions}`,
+  ];
+
+  return mode === "Custom"
+    ? [...basicSettings, ...advancedSettings].join("\n")
+    : basicSettings.join("\n");
+}
+
+// Percentages are kept to 0.01% so they stay editable in the Custom inputs
+const PCT_PRECISION = 10000;
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Parse a DAS RiskControl.cfg back into RiskSettings.
+ *
+ * Dollar limits are converted to fractions of `equity`. Anything that cannot be
+ * applied cleanly is reported in `diagnostics` rather than dropped.
+ */
+export function parseCfg(text: string, equity: number, base: RiskSettings = PRESET_MAP.Custom): CfgImportResult {
+  const settings: RiskSettings = { ...base };
+  const diagnostics: CfgDiagnostic[] = [];
+  const seen = new Map<string, number>();
+  let mode: string | null = null;
+  let preset: string | null = null;
+
+  if (!(equity > 0)) {
+    diagnostics.push({ line: 0, severity: "error", message: "Equity must be greater than 0 to convert dollar limits to percentages" });
+  }
+
+  text.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = idx + 1;
+    const trimmed = rawLine.trim();
+    if (!trimmed) return;
+
+    if (trimmed.startsWith("#") || trimmed.startsWith(";")) {
+      const modeHeader = trimmed.match(/^#\s*Mode:\s*(.+)$/i);
+      if (modeHeader) mode = modeHeader[1].trim();
+      const presetHeader = trimmed.match(/^#\s*Preset:\s*(.+)$/i);
+      if (presetHeader) preset = presetHeader[1].trim();
+      return;
+    }
+
+    const eq = trimmed.indexOf("=");
+    if (eq <= 0) {
+      diagnostics.push({ line, severity: "error", message: `Malformed line, expected Key=Value: "${trimmed}"` });
+      return;
+    }
+
+    const key = trimmed.slice(0, eq).trim();
+    const value = trimmed.slice(eq + 1).trim();
+    const spec = CFG_KEYS[key];
+    if (!spec) {
+      diagnostics.push({ line, severity: "warning", message: `Unknown key "${key}" ignored` });
+      return;
+    }
+
+    const previous = seen.get(key);
+    if (previous !== undefined) {
+      diagnostics.push({ line, severity: "warning", message: `${key} also set on line ${previous}; this value wins` });
+    }
+    seen.set(key, line);
+
+    const issue = applyValue(settings, spec, key, value, equity);
+    if (issue) diagnostics.push({ line, ...issue });
+  });
+
+  for (const key of Object.keys(CFG_KEYS)) {
+    if (!seen.has(key)) {
+      diagnostics.push({ line: 0, severity: "info", message: `${key} not present; left at default` });
+    }
+  }
+
+  return { settings, diagnostics, mode, preset };
+}
+
+function applyValue(
+  settings: RiskSettings,
+  spec: CfgKeySpec,
+  key: string,
+  value: string,
+  equity: number,
+): Omit<CfgDiagnostic, "line"> | null {
+  if (spec.kind === "time") {
+    if (value !== "" && !TIME_RE.test(value)) {
+      return { severity: "error", message: `${key} must be HH:MM (24h), got "${value}"` };
+    }
+    settings.stopTime = value;
+    return null;
+  }
+
+  if (value === "" || !/^-?\d+(\.\d+)?$/.test(value)) {
+    return { severity: "error", message: `${key} must be a number, got "${value}"` };
+  }
+  const n = Number(value);
+
+  switch (spec.kind) {
+    case "flag": {
+      if (n !== 0 && n !== 1) {
+        return { severity: "error", message: `${key} must be 0 or 1, got ${value}` };
+      }
+      settings[spec.field as FlagField] = n === 1;
+      return null;
+    }
+    case "count": {
+      if (n < 0 || !Number.isInteger(n)) {
+        return { severity: "error", message: `${key} must be a non-negative whole number, got ${value}` };
+      }
+      settings[spec.field as NumericField] = n;
+      return null;
+    }
+    case "percent": {
+      settings[spec.field as NumericField] = Math.abs(n) / 100;
+      return n < 0 ? { severity: "warning", message: `${key} is negative; used ${Math.abs(n)}%` } : null;
+    }
+    case "loss":
+    case "value": {
+      if (!(equity > 0)) {
+        return { severity: "error", message: `${key} skipped: no equity to convert ${value} against` };
+      }
+      const dollars = Math.abs(n);
+      const fraction = Math.round((dollars / equity) * PCT_PRECISION) / PCT_PRECISION;
+      settings[spec.field as NumericField] = fraction;
+
+      // Re-export the way buildCfg() does and make sure we land on the same number
+      const sign = spec.kind === "loss" ? -1 : 1;
+      const reexported = Math.round(sign * equity * fraction);
+      const expected = Math.round(sign * dollars);
+      if (reexported !== expected) {
+        return {
+          severity: "warning",
+          message: `${key}=${value} does not round-trip at equity ${equity}: stored as ${(fraction * 100).toFixed(2)}%, which exports as ${reexported}`,
+        };
+      }
+      if (spec.kind === "loss" && n > 0) {
+        return { severity: "warning", message: `${key} is positive; DAS loss limits are negative, treated as ${-dollars}` };
+      }
+      return null;
+    }
+  }
+  return null;
+}
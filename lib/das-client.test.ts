@@ -0,0 +1,126 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import { backoffDelay, createDasClient, type DasClient, type DasConfig } from "@/lib/das-client";
+import { type DasStatus } from "@/lib/das-cmd";
+import { type AccountSnapshot } from "@/lib/snapshot";
+
+const MOCK = join(__dirname, "..", "scripts", "das-mock-server.mjs");
+
+// The client polls as soon as it logs in; the pause makes both commands arrive before the mock reads them
+const RECORDING = `
+> LOGIN
+< #LOGIN SUCCESSED
+@ 200
+> GET AccountInfo
+< $AccountInfo TR1234 55000 54680 -180 -140 -320
+> GET POSITIONS
+< %POS AAPL 2 100 190.50 100 190.50 0 09:31:05 -60
+< #POSEND
+`;
+
+const dir = mkdtempSync(join(tmpdir(), "das-mock-"));
+const recording = join(dir, "session.txt");
+writeFileSync(recording, RECORDING);
+
+let mock: ChildProcess | null = null;
+let client: DasClient | null = null;
+
+afterEach(async () => {
+  client?.stop();
+  client = null;
+  await stopMock();
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+function startMock(port: number): Promise<void> {
+  const child = spawn(process.execPath, [MOCK, recording, "--port", String(port)], { stdio: ["ignore", "pipe", "inherit"] });
+  mock = child;
+  return new Promise((resolve, reject) => {
+    child.stdout!.setEncoding("utf8");
+    child.stdout!.on("data", (text: string) => { if (text.includes("DAS mock listening")) resolve(); });
+    child.on("exit", code => reject(new Error(`DAS mock exited with ${code}`)));
+  });
+}
+
+async function stopMock() {
+  const child = mock;
+  mock = null;
+  if (!child || child.exitCode !== null) return;
+  const exited = new Promise(resolve => child.once("exit", resolve));
+  child.kill();
+  await exited;
+}
+
+async function until(check: () => boolean, ms = 5000) {
+  const end = Date.now() + ms;
+  while (!check()) {
+    if (Date.now() > end) throw new Error("Timed out waiting for the DAS client");
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+function connectClient(port: number) {
+  const config: DasConfig = { host: "127.0.0.1", port, user: "demo", password: "demo", account: "TR1234", profile: null, pollMs: 60_000, timeoutMs: 2000 };
+  const statuses: DasStatus[] = [];
+  const snapshots: AccountSnapshot[] = [];
+  client = createDasClient(config, { onSnapshot: s => snapshots.push(s), onStatus: s => statuses.push(s) });
+  client.start();
+  return { statuses, snapshots };
+}
+
+describe("DAS client against the mock server", () => {
+  it("logs in and turns the replayed session into a snapshot", async () => {
+    const port = await freePort();
+    await startMock(port);
+    const { statuses, snapshots } = connectClient(port);
+
+    await until(() => snapshots.some(s => s.positions !== undefined));
+    expect(statuses.map(s => s.state).slice(0, 3)).toEqual(["connecting", "authenticating", "connected"]);
+    const last = snapshots[snapshots.length - 1];
+    expect(last).toMatchObject({ account: "TR1234", equity: 54_680, realizedPnL: -180 });
+    expect(last.positions?.map(p => [p.symbol, p.side, p.shares])).toEqual([["AAPL", "Long", 100]]);
+  }, 15_000);
+
+  it("retries with backoff until DAS is up, and again after it drops", async () => {
+    const port = await freePort();
+    const { statuses } = connectClient(port);
+
+    await until(() => statuses.some(s => s.state === "retrying"));
+    const refused = statuses.find(s => s.state === "retrying")!;
+    expect(refused.attempt).toBe(1);
+    const wait = Date.parse(refused.retryAt!) - Date.parse(refused.since);
+    expect(wait).toBeGreaterThanOrEqual(900);
+    expect(wait).toBeLessThanOrEqual(1300);
+
+    await startMock(port);
+    await until(() => statuses.some(s => s.state === "connected"), 8000);
+
+    const seen = statuses.length;
+    await stopMock();
+    await until(() => statuses.slice(seen).some(s => s.state === "retrying"));
+    const dropped = statuses.slice(seen).find(s => s.state === "retrying")!;
+    // A killed server reads as a close or a reset, depending on timing
+    expect(dropped.detail).toMatch(/^(Connection closed by DAS|read ECONNRESET); retrying in/);
+    expect(dropped.attempt).toBe(1);
+  }, 20_000);
+});
+
+describe("backoffDelay", () => {
+  it("doubles from 1s to a 30s cap, with up to 20% jitter", () => {
+    expect([1, 2, 3, 4, 5, 6, 7].map(n => backoffDelay(n, () => 0))).toEqual([1000, 2000, 4000, 8000, 16_000, 30_000, 30_000]);
+    expect(backoffDelay(1, () => 1)).toBe(1200);
+  });
+});
@@ -0,0 +1,218 @@
+import { createConnection, type Socket } from "node:net";
+import { DAS_COMMANDS, parseDasLine, splitLines, toPosition, type DasAccountInfo, type DasConnectionState, type DasEvent, type DasPosition, type DasStatus } from "@/lib/das-cmd";
+import { publish } from "@/lib/feed-hub";
+import { type AccountSnapshot } from "@/lib/snapshot";
+
+export const DAS_DEFAULT_PORT = 9910;
+
+export interface DasConfig {
+  host: string;
+  port: number;
+  user: string;
+  password: string;
+  account: string;               // DAS trading account to log in to and read
+  profile: string | null;        // Dashboard account the data is for; null means the DAS account name
+  pollMs: number;                // How often account info and positions are re-requested
+  timeoutMs: number;             // For the TCP connect and for the login reply
+}
+
+export interface DasClientHandlers {
+  onSnapshot: (snapshot: AccountSnapshot) => void;
+  onStatus: (status: DasStatus) => void;
+  onEvent?: (event: DasEvent) => void;
+}
+
+export interface DasClient {
+  start: () => void;
+  stop: () => void;
+}
+
+// Null when DAS_HOST is unset, which leaves the client off
+export function dasConfigFromEnv(env: NodeJS.ProcessEnv = process.env): DasConfig | null {
+  if (!env.DAS_HOST) return null;
+  return {
+    host: env.DAS_HOST,
+    port: Number(env.DAS_PORT) || DAS_DEFAULT_PORT,
+    user: env.DAS_USER ?? "",
+    password: env.DAS_PASSWORD ?? "",
+    account: env.DAS_ACCOUNT ?? "",
+    profile: env.DAS_PROFILE || null,
+    pollMs: Number(env.DAS_POLL_MS) || 2000,
+    timeoutMs: 5000,
+  };
+}
+
+// 1s, 2s, 4s … capped at 30s, plus up to 20% jitter so restarted dashboards do not reconnect in step
+export function backoffDelay(attempt: number, random: () => number = Math.random): number {
+  const base = Math.min(30_000, 1000 * 2 ** Math.max(0, attempt - 1));
+  return Math.round(base * (1 + 0.2 * random()));
+}
+
+/**
+ * Connect to the DAS CMD API, log in, and poll account info and positions,
+ * turning them into snapshots for the dashboard. Any failure (refused, timed
+ * out, login rejected, dropped) closes the socket and retries with backoff
+ * until `stop()`. Snapshots are only sent when something changed.
+ */
+export function createDasClient(config: DasConfig, handlers: DasClientHandlers): DasClient {
+  const endpoint = `${config.host}:${config.port}`;
+  let socket: Socket | null = null;
+  let stopped = true;
+  let attempt = 0;
+  let pending = "";
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let loginTimer: ReturnType<typeof setTimeout> | undefined;
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let emitTimer: ReturnType<typeof setTimeout> | undefined;
+
+  let account: DasAccountInfo | null = null;
+  const positions = new Map<string, DasPosition>();
+  const seen = new Set<string>();      // Symbols reported since the last GET POSITIONS
+  let havePositions = false;
+  let lastSent = "";
+
+  function status(state: DasConnectionState, detail: string, retryAt: string | null = null) {
+    handlers.onStatus({ state, endpoint, detail, since: new Date().toISOString(), attempt, retryAt });
+  }
+
+  function send(line: string) {
+    socket?.write(`${line}\r\n`);
+  }
+
+  // Re-read on a timer rather than only relying on lines DAS pushes: a full GET POSITIONS ending in
+  // #POSEND is what lets a position closed elsewhere be dropped (see `seen`), and it resyncs anything
+  // missed while the socket was down. Pushed %POS / $AccountInfo lines between polls are still applied.
+  function poll() {
+    seen.clear();
+    send(DAS_COMMANDS.accountInfo);
+    send(DAS_COMMANDS.positions);
+  }
+
+  // Coalesce a burst of lines into one snapshot
+  function changed() {
+    clearTimeout(emitTimer);
+    emitTimer = setTimeout(() => {
+      // The same account for every tab; until DAS reports its account there is nothing to name
+      const target = config.profile ?? (config.account || account?.account);
+      if (!target) return;
+      const values: Omit<AccountSnapshot, "receivedAt"> = {
+        account: target,
+        ...(account ? { equity: account.currentEquity, realizedPnL: account.realizedPnL } : {}),
+        ...(havePositions ? { positions: [...positions.values()].filter(p => p.shares !== 0).map(toPosition) } : {}),
+      };
+      const text = JSON.stringify(values);
+      if (text === lastSent) return;
+      lastSent = text;
+      handlers.onSnapshot({ ...values, receivedAt: new Date().toISOString() });
+    }, 100);
+  }
+
+  function handle(line: string) {
+    const event = parseDasLine(line);
+    handlers.onEvent?.(event);
+    switch (event.type) {
+      case "login":
+        if (!event.ok) return fail(`Login rejected: ${event.message || "no reason given"}`);
+        clearTimeout(loginTimer);
+        attempt = 0;
+        status("connected", `Logged in to ${config.account || "DAS"} as ${config.user}`);
+        poll();
+        pollTimer = setInterval(poll, config.pollMs);
+        return;
+      case "account":
+        if (config.account && event.info.account !== config.account) return;
+        account = event.info;
+        return changed();
+      case "position":
+        positions.set(event.position.symbol, event.position);
+        seen.add(event.position.symbol);
+        return changed();
+      case "positionsEnd":
+        for (const symbol of positions.keys()) if (!seen.has(symbol)) positions.delete(symbol);
+        havePositions = true;
+        return changed();
+    }
+  }
+
+  function teardown() {
+    clearTimeout(loginTimer);
+    clearInterval(pollTimer);
+    clearTimeout(emitTimer);
+    const s = socket;
+    socket = null;
+    pending = "";
+    if (s) {
+      s.removeAllListeners();
+      s.on("error", () => {});
+      s.destroy();
+    }
+  }
+
+  function fail(reason: string) {
+    if (!socket) return;  // An error is followed by close; only the first one counts
+    teardown();
+    if (stopped) return;
+    attempt++;
+    const delay = backoffDelay(attempt);
+    status("retrying", `${reason}; retrying in ${Math.ceil(delay / 1000)}s`, new Date(Date.now() + delay).toISOString());
+    retryTimer = setTimeout(connect, delay);
+  }
+
+  function connect() {
+    status("connecting", `Connecting to ${endpoint}`);
+    const s = createConnection({ host: config.host, port: config.port });
+    socket = s;
+    s.setEncoding("utf8");
+    s.setKeepAlive(true, 10_000);
+    s.setTimeout(config.timeoutMs);
+    s.on("connect", () => {
+      s.setTimeout(0);
+      status("authenticating", `Logging in as ${config.user}`);
+      send(DAS_COMMANDS.login(config.user, config.password, config.account));
+      loginTimer = setTimeout(() => fail("No reply to LOGIN"), config.timeoutMs);
+    });
+    s.on("timeout", () => fail("Connection timed out"));
+    s.on("data", (chunk: string) => {
+      const { lines, rest } = splitLines(pending, chunk);
+      pending = rest;
+      lines.forEach(handle);
+    });
+    s.on("error", (err) => fail(err.message));
+    s.on("close", () => fail("Connection closed by DAS"));
+  }
+
+  return {
+    start() {
+      if (!stopped) return;
+      stopped = false;
+      attempt = 0;
+      connect();
+    },
+    stop() {
+      stopped = true;
+      clearTimeout(retryTimer);
+      send(DAS_COMMANDS.quit);
+      teardown();
+      status("disabled", "Stopped");
+    },
+  };
+}
+
+// One client per server process, started by the first dashboard that opens the event stream
+const store = globalThis as typeof globalThis & { cobraDasClient?: DasClient | null };
+
+export function ensureDasClient() {
+  if (store.cobraDasClient !== undefined) return;
+  const config = dasConfigFromEnv();
+  if (!config) {
+    store.cobraDasClient = null;
+    publish({ event: "das-status", data: { state: "disabled", endpoint: "", detail: "Set DAS_HOST to read from DAS Trader", since: new Date().toISOString(), attempt: 0, retryAt: null } });
+    return;
+  }
+  const client = createDasClient(config, {
+    onSnapshot: (snapshot) => publish({ event: "snapshot", data: snapshot }),
+    onStatus: (status) => publish({ event: "das-status", data: status }),
+  });
+  store.cobraDasClient = client;
+  client.start();
+}
@@ -0,0 +1,118 @@
+import { type Position } from "@/lib/positions";
+
+/**
+ * DAS Trader Pro CMD API line protocol. Every message is one line ending in
+ * CRLF, fields separated by spaces. Layouts this client reads:
+ *
+ *   #LOGIN SUCCESSED / #LOGIN FAILED <reason>
+ *   $AccountInfo <account> <openEquity> <currentEquity> <realizedPL> <unrealizedPL> ...
+ *   %POS <symbol> <type> <qty> <avgCost> <initQty> <initPrice> <realizedPL> <createTime> <unrealizedPL>
+ *   #POSEND                                   (end of a GET POSITIONS reply)
+ *   #ERR <message> / #ERROR <message>
+ *
+ * Short positions carry a negative quantity. Anything else is passed through
+ * as "other" so a newer DAS build cannot break the parser.
+ */
+export const DAS_COMMANDS = {
+  login: (user: string, password: string, account: string) => `LOGIN ${user} ${password} ${account}`,
+  positions: "GET POSITIONS",
+  accountInfo: "GET AccountInfo",
+  quit: "QUIT",
+};
+
+export interface DasPosition {
+  symbol: string;
+  shares: number;                // Signed: negative is short
+  avgCost: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+}
+
+export interface DasAccountInfo {
+  account: string;
+  openEquity: number;
+  currentEquity: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+}
+
+export type DasEvent =
+  | { type: "login"; ok: boolean; message: string }
+  | { type: "account"; info: DasAccountInfo }
+  | { type: "position"; position: DasPosition }
+  | { type: "positionsEnd" }
+  | { type: "error"; message: string }
+  | { type: "other"; line: string };
+
+function numbers(fields: string[]): number[] | null {
+  const values = fields.map(Number);
+  return values.every(Number.isFinite) ? values : null;
+}
+
+export function parseDasLine(line: string): DasEvent {
+  const text = line.trim();
+  const [head, ...fields] = text.split(/\s+/);
+
+  if (head === "#LOGIN") {
+    const ok = /^SUCC/i.test(fields[0] ?? "");
+    return { type: "login", ok, message: fields.join(" ") };
+  }
+  if (head === "#ERR" || head === "#ERROR") return { type: "error", message: fields.join(" ") };
+  if (head === "#POSEND") return { type: "positionsEnd" };
+
+  if (head === "$AccountInfo" && fields.length >= 5) {
+    const values = numbers(fields.slice(1, 5));
+    if (values) {
+      const [openEquity, currentEquity, realizedPnL, unrealizedPnL] = values;
+      return { type: "account", info: { account: fields[0], openEquity, currentEquity, realizedPnL, unrealizedPnL } };
+    }
+  }
+
+  if (head === "%POS" && fields.length >= 9) {
+    const values = numbers([fields[2], fields[3], fields[6], fields[8]]);
+    if (values) {
+      const [shares, avgCost, realizedPnL, unrealizedPnL] = values;
+      return { type: "position", position: { symbol: fields[0].toUpperCase(), shares, avgCost, realizedPnL, unrealizedPnL } };
+    }
+  }
+
+  return { type: "other", line: text };
+}
+
+// Split a socket chunk into complete lines; `rest` is the partial line to prepend to the next chunk
+export function splitLines(pending: string, chunk: string): { lines: string[]; rest: string } {
+  const parts = (pending + chunk).split(/\r?\n/);
+  const rest = parts.pop() ?? "";
+  return { lines: parts.filter(l => l.trim() !== ""), rest };
+}
+
+/**
+ * Ledger row for a DAS position. DAS reports unrealized P&L rather than the
+ * last price, so the price is backed out of it; the ledger then reproduces
+ * the same unrealized figure.
+ */
+export function toPosition(p: DasPosition): Position {
+  const shares = Math.abs(p.shares);
+  const side = p.shares < 0 ? "Short" : "Long";
+  const perShare = shares > 0 ? p.unrealizedPnL / shares : 0;
+  return {
+    id: `${p.symbol}-${side}`,
+    symbol: p.symbol,
+    side,
+    shares,
+    avgPrice: p.avgCost,
+    lastPrice: side === "Long" ? p.avgCost + perShare : p.avgCost - perShare,
+  };
+}
+
+export type DasConnectionState = "disabled" | "connecting" | "authenticating" | "connected" | "retrying";
+
+// What the dashboard shows about the server's DAS connection
+export interface DasStatus {
+  state: DasConnectionState;
+  endpoint: string;              // host:port, empty when disabled
+  detail: string;
+  since: string;                 // ISO time the state was entered
+  attempt: number;               // Failed attempts since the last good login
+  retryAt: string | null;        // When the next attempt starts, while retrying
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_MAP } from "@/lib/calc";
+import { parseCsv, parseDasCsv } from "@/lib/das-csv";
+import { evaluateRisk } from "@/lib/risk";
+
+describe("parseCsv", () => {
+  it("reads quoted fields, escaped quotes and CRLF endings, keeping each record's line", () => {
+    expect(parseCsv('a,"b,c"\r\n\r\n"say ""hi""",2\n')).toEqual([
+      { line: 1, cells: ["a", "b,c"] },
+      { line: 3, cells: ['say "hi"', "2"] },
+    ]);
+  });
+});
+
+describe("parseDasCsv trades export", () => {
+  it("replays fills on an average-cost basis", () => {
+    const result = parseDasCsv([
+      "Time,Symbol,Side,Qty,Price",
+      "09:31:00,AAPL,B,100,190",
+      "09:32:00,AAPL,B,100,192",
+      "09:40:00,AAPL,S,150,193",
+      "09:45:00,TSLA,SS,50,240",
+    ].join("\n"));
+    expect(result.kind).toBe("trades");
+    expect(result.tradeCount).toBe(4);
+    expect(result.hasRealized).toBe(true);
+    expect(result.realizedPnL).toBeCloseTo(300);
+    expect(result.positions.map(p => [p.symbol, p.side, p.shares, p.avgPrice])).toEqual([
+      ["AAPL", "Long", 50, 191],
+      ["TSLA", "Short", 50, 240],
+    ]);
+  });
+
+  it("reports bad rows by line and keeps the good ones", () => {
+    const result = parseDasCsv("Symbol,Side,Qty,Price\nAAPL,B,100,190\n,B,10,5\nMSFT,X,10,400\nNVDA,B,abc,100\n");
+    expect(result.rowsRead).toBe(1);
+    expect(result.errors).toEqual([
+      { line: 3, message: "Missing symbol" },
+      { line: 4, message: 'MSFT: unknown side "X"' },
+      { line: 5, message: "NVDA: quantity is missing or zero" },
+    ]);
+  });
+});
+
+describe("parseDasCsv positions export", () => {
+  it("takes positions as they are, with negative quantities as shorts", () => {
+    const result = parseDasCsv("Symbol,Qty,AvgCost,Last,Realized\nAAPL,100,190.50,191.00,-120\nTSLA,-50,240,238,0\nMSFT,0,400,400,45.5\n");
+    expect(result.kind).toBe("positions");
+    expect(result.hasRealized).toBe(true);
+    expect(result.realizedPnL).toBeCloseTo(-74.5);
+    expect(result.positions.map(p => [p.symbol, p.side, p.shares])).toEqual([["AAPL", "Long", 100], ["TSLA", "Short", 50]]);
+  });
+
+  it("has no realized P&L without a Realized column", () => {
+    const result = parseDasCsv("Symbol,Qty,AvgCost,Last\nAAPL,100,190.50,191.00\n");
+    expect(result.kind).toBe("positions");
+    expect(result.hasRealized).toBe(false);
+    expect(result.positions).toHaveLength(1);
+  });
+
+  it("rejects a header it cannot recognise", () => {
+    expect(parseDasCsv("Ticker,Shares\nAAPL,100\n").errors[0].message).toMatch(/^Unrecognised export/);
+    expect(parseDasCsv("").errors).toEqual([{ line: 0, message: "File is empty" }]);
+  });
+});
+
+describe("trade count against MaxDailyTrades", () => {
+  const inputs = { equity: 100_000, priorEquity: 100_000, todaysPnL: 0, haltedExposure: 0 };
+
+  it("turns Caution past 80% and Danger at the limit", () => {
+    const settings = { ...PRESET_MAP.Custom, maxDailyTrades: 10 };
+    expect(evaluateRisk(settings, { ...inputs, tradeCount: 8 }).tradesStatus).toBe("Safe");
+    expect(evaluateRisk(settings, { ...inputs, tradeCount: 9 }).tradesStatus).toBe("Caution");
+    expect(evaluateRisk(settings, { ...inputs, tradeCount: 10 }).tradesStatus).toBe("Danger");
+  });
+
+  it("stays Safe when no limit is set", () => {
+    expect(evaluateRisk(PRESET_MAP.Custom, { ...inputs, tradeCount: 500 }).tradesStatus).toBe("Safe");
+  });
+});
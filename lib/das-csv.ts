@@ -0,0 +1,210 @@
+import { type Position, type Side } from "@/lib/positions";
+import { newId } from "@/lib/utils";
+
+export type DasExportKind = "trades" | "positions";
+
+export interface CsvRowError {
+  line: number;                  // 1-based line in the source text
+  message: string;
+}
+
+export interface DasImportResult {
+  kind: DasExportKind | null;
+  realizedPnL: number;
+  hasRealized: boolean;          // Trades exports, and positions exports with a Realized column; otherwise realizedPnL means nothing
+  positions: Position[];
+  tradeCount: number;
+  pnlHighWater: number | null;   // Peak running realized P&L, trades exports only
+  rowsRead: number;
+  errors: CsvRowError[];
+}
+
+// DAS column headers vary between versions and window layouts
+const COLUMN_ALIASES: Record<string, string[]> = {
+  symbol: ["symbol", "symb", "ticker"],
+  side: ["side", "b/s", "l/s", "pos type"],
+  qty: ["qty", "quantity", "shares", "share", "pos"],
+  price: ["price", "exec price", "fill price"],
+  avgPrice: ["avgcost", "avg cost", "avg price", "avgprice", "cost"],
+  lastPrice: ["last", "last price", "lastprice", "mkt price"],
+  realized: ["realized", "realized p&l", "realizedpl", "real p&l", "realpl"],
+};
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes and CRLF line endings.
+ * Returns each record with the line it started on.
+ */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let startLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else { if (ch === "\n") line++; field += ch; }
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    else if (ch === ",") { cells.push(field); field = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      cells.push(field);
+      if (cells.some(c => c.trim() !== "")) records.push({ line: startLine, cells });
+      cells = []; field = "";
+      line++; startLine = line;
+    }
+    else field += ch;
+  }
+  cells.push(field);
+  if (cells.some(c => c.trim() !== "")) records.push({ line: startLine, cells });
+  return records;
+}
+
+function findColumns(header: string[]): Partial<Record<keyof typeof COLUMN_ALIASES, number>> {
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const cols: Partial<Record<keyof typeof COLUMN_ALIASES, number>> = {};
+  for (const [name, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const idx = normalized.findIndex(h => aliases.includes(h));
+    if (idx >= 0) cols[name] = idx;
+  }
+  return cols;
+}
+
+function toNumber(raw: string | undefined): number {
+  if (raw === undefined) return NaN;
+  const cleaned = raw.trim().replace(/[$,\s]/g, "").replace(/^\((.*)\)$/, "-$1");
+  return cleaned === "" ? NaN : Number(cleaned);
+}
+
+/**
+ * Read a DAS Trader trades or positions CSV export.
+ *
+ * Trades exports are replayed per symbol on an average-cost basis to derive
+ * realized P&L and whatever is still open. Positions exports are taken as-is.
+ * Bad rows are collected in `errors`; nothing here touches dashboard state.
+ */
+export function parseDasCsv(text: string): DasImportResult {
+  const result: DasImportResult = { kind: null, realizedPnL: 0, hasRealized: false, positions: [], tradeCount: 0, pnlHighWater: null, rowsRead: 0, errors: [] };
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    result.errors.push({ line: 0, message: "File is empty" });
+    return result;
+  }
+
+  const [header, ...rows] = records;
+  const cols = findColumns(header.cells);
+  if (cols.symbol === undefined || cols.qty === undefined) {
+    result.errors.push({ line: header.line, message: "Header must include Symbol and Qty/Shares columns" });
+    return result;
+  }
+
+  if (cols.avgPrice !== undefined) {
+    result.kind = "positions";
+    result.hasRealized = cols.realized !== undefined;
+    readPositions(rows, cols, result);
+  } else if (cols.price !== undefined && cols.side !== undefined) {
+    result.kind = "trades";
+    result.hasRealized = true;
+    readTrades(rows, cols, result);
+  } else {
+    result.errors.push({ line: header.line, message: "Unrecognised export: expected AvgCost (positions) or Side and Price (trades) columns" });
+  }
+  return result;
+}
+
+type Columns = ReturnType<typeof findColumns>;
+type Row = { line: number; cells: string[] };
+
+function readPositions(rows: Row[], cols: Columns, result: DasImportResult) {
+  for (const { line, cells } of rows) {
+    const symbol = cells[cols.symbol!]?.trim().toUpperCase();
+    const qty = toNumber(cells[cols.qty!]);
+    const avgPrice = toNumber(cells[cols.avgPrice!]);
+    const lastPrice = cols.lastPrice !== undefined ? toNumber(cells[cols.lastPrice]) : avgPrice;
+    const sideRaw = cols.side !== undefined ? cells[cols.side]?.trim().toLowerCase() : "";
+
+    if (!symbol) { result.errors.push({ line, message: "Missing symbol" }); continue; }
+    if (!Number.isFinite(qty)) { result.errors.push({ line, message: `${symbol}: quantity is not a number` }); continue; }
+    if (!Number.isFinite(avgPrice) || !Number.isFinite(lastPrice)) {
+      result.errors.push({ line, message: `${symbol}: price is not a number` });
+      continue;
+    }
+
+    result.rowsRead++;
+    if (cols.realized !== undefined) {
+      const realized = toNumber(cells[cols.realized]);
+      if (Number.isFinite(realized)) result.realizedPnL += realized;
+      else result.errors.push({ line, message: `${symbol}: realized P&L is not a number, counted as 0` });
+    }
+    if (qty === 0) continue;
+
+    const side: Side = sideRaw.startsWith("s") || qty < 0 ? "Short" : "Long";
+    result.positions.push({ id: newId(), symbol, side, shares: Math.abs(qty), avgPrice, lastPrice });
+  }
+}
+
+function readTrades(rows: Row[], cols: Columns, result: DasImportResult) {
+  // Signed share count and average cost per symbol, replayed in file order
+  const book = new Map<string, { shares: number; avgPrice: number; lastPrice: number }>();
+  let highWater = 0;
+
+  for (const { line, cells } of rows) {
+    const symbol = cells[cols.symbol!]?.trim().toUpperCase();
+    const qty = Math.abs(toNumber(cells[cols.qty!]));
+    const price = toNumber(cells[cols.price!]);
+    const side = cells[cols.side!]?.trim().toUpperCase();
+
+    if (!symbol) { result.errors.push({ line, message: "Missing symbol" }); continue; }
+    if (!Number.isFinite(qty) || qty === 0) { result.errors.push({ line, message: `${symbol}: quantity is missing or zero` }); continue; }
+    if (!Number.isFinite(price)) { result.errors.push({ line, message: `${symbol}: price is not a number` }); continue; }
+
+    // B = buy, S = sell, SS = short sell; some layouts spell them out
+    const sign = side === "B" || side === "BUY" || side === "BC" ? 1
+               : side === "S" || side === "SELL" || side === "SS" || side === "SHORT" ? -1
+               : 0;
+    if (sign === 0) { result.errors.push({ line, message: `${symbol}: unknown side "${side}"` }); continue; }
+
+    result.rowsRead++;
+    result.tradeCount++;
+
+    const pos = book.get(symbol) ?? { shares: 0, avgPrice: 0, lastPrice: price };
+    const fill = sign * qty;
+    pos.lastPrice = price;
+
+    if (pos.shares === 0 || Math.sign(pos.shares) === sign) {
+      // Opening or adding: blend the average cost
+      const total = Math.abs(pos.shares) + qty;
+      pos.avgPrice = (pos.avgPrice * Math.abs(pos.shares) + price * qty) / total;
+      pos.shares += fill;
+    } else {
+      // Reducing, closing or flipping through zero
+      const closed = Math.min(qty, Math.abs(pos.shares));
+      result.realizedPnL += (price - pos.avgPrice) * closed * Math.sign(pos.shares);
+      highWater = Math.max(highWater, result.realizedPnL);
+      pos.shares += fill;
+      if (pos.shares === 0) pos.avgPrice = 0;
+      else if (Math.sign(pos.shares) === sign) pos.avgPrice = price;
+    }
+    book.set(symbol, pos);
+  }
+
+  book.forEach((pos, symbol) => {
+    if (pos.shares === 0) return;
+    result.positions.push({
+      id: newId(),
+      symbol,
+      side: pos.shares > 0 ? "Long" : "Short",
+      shares: Math.abs(pos.shares),
+      avgPrice: pos.avgPrice,
+      lastPrice: pos.lastPrice,
+    });
+  });
+  result.realizedPnL = Math.round(result.realizedPnL * 100) / 100;
+  result.pnlHighWater = Math.round(highWater * 100) / 100;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_MAP, type RiskSettings } from "@/lib/calc";
+import { diffSettings, type FlatField } from "@/lib/diff";
+
+const EQUITY = 100_000;
+
+// Direction of moving one field from `baseline` to `current`, everything else equal
+function direction<F extends FlatField>(field: F, baseline: RiskSettings[F], current: RiskSettings[F]) {
+  const diffs = diffSettings({ ...PRESET_MAP.Custom, [field]: current }, { ...PRESET_MAP.Custom, [field]: baseline }, EQUITY);
+  return diffs.find(d => d.field === field)!.direction;
+}
+
+describe("diffSettings direction", () => {
+  it("reads a higher dollar limit as looser", () => {
+    expect(direction("totalLossLimit", 0.05, 0.08)).toBe("looser");
+    expect(direction("totalLossLimit", 0.08, 0.05)).toBe("tighter");
+    expect(direction("perSymbolExposureLimit", 0.1, 0.2)).toBe("looser");
+    expect(direction("maxPositions", 5, 3)).toBe("tighter");
+  });
+
+  it("treats 0 as no limit, looser than any set value", () => {
+    expect(direction("totalLossLimit", 0.05, 0)).toBe("looser");
+    expect(direction("totalLossLimit", 0, 0.5)).toBe("tighter");
+    expect(direction("maxDailyTrades", 0, 500)).toBe("tighter");
+    expect(direction("maxDailyTrades", 0, 0)).toBe("same");
+  });
+
+  it("keeps 0% profit-lock drawdown as the tightest setting, not no limit", () => {
+    expect(direction("profitLockDrawdown", 0.3, 0)).toBe("tighter");
+    expect(direction("profitLockDrawdown", 0, 0.3)).toBe("looser");
+  });
+
+  it("reads a later StopTime, or none, as looser", () => {
+    expect(direction("stopTime", "15:30", "15:45")).toBe("looser");
+    expect(direction("stopTime", "15:45", "09:45")).toBe("tighter");
+    expect(direction("stopTime", "15:45", "")).toBe("looser");
+    expect(direction("stopTime", "", "15:45")).toBe("tighter");
+  });
+
+  it("reads switching a safeguard off as looser", () => {
+    expect(direction("autoStopLoss", true, false)).toBe("looser");
+    expect(direction("disableNewOrders", false, true)).toBe("tighter");
+    expect(direction("liquidateAllPositions", true, true)).toBe("same");
+  });
+});
+
+describe("diffSettings dollars", () => {
+  it("shows dollar keys at the given equity and leaves the rest null", () => {
+    const diffs = diffSettings({ ...PRESET_MAP.Standard }, PRESET_MAP.Custom, EQUITY);
+    const total = diffs.find(d => d.field === "totalLossLimit")!;
+    expect([total.currentDollars, total.direction]).toEqual([-15_000, "tighter"]);
+    expect(diffs.find(d => d.field === "maxPositions")!.currentDollars).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { pct, type RiskSettings, type ScaledField } from "@/lib/calc";
+import { SCALED_FIELDS, scaleLimits } from "@/lib/tiers";
+
+export type FieldKind = "loss" | "value" | "percent" | "time" | "flag" | "count";
+export type ChangeDirection = "same" | "looser" | "tighter";
+
+// The single-value settings; equity tiers and dollar clamps are compared separately
+export type FlatField = Exclude<keyof RiskSettings, "equityTiers" | "dollarClamps">;
+type FlatValue = RiskSettings[FlatField];
+
+export interface SettingField {
+  field: FlatField;
+  label: string;
+  cfgKey: string;
+  kind: FieldKind;
+  // Which way of moving the value gives the trader more room
+  looserWhen: "higher" | "lower";
+}
+
+// Every single-value RiskSettings field, in the order it appears in RiskControl.cfg
+export const SETTING_FIELDS: SettingField[] = [
+  { field: "totalLossLimit", label: "Total Loss", cfgKey: "TotalLossLimit", kind: "loss", looserWhen: "higher" },
+  { field: "perSymbolLossLimit", label: "Per-Symbol Unrealized Loss", cfgKey: "PosUnrealLossLimit", kind: "loss", looserWhen: "higher" },
+  { field: "perSymbolExposureLimit", label: "Max Exposure / Ticker", cfgKey: "PosMktValueLimit", kind: "value", looserWhen: "higher" },
+  { field: "totalExposureLimit", label: "Total Exposure", cfgKey: "OpenPosValueLimit", kind: "value", looserWhen: "higher" },
+  { field: "profitLockStart", label: "Profit Lock Start", cfgKey: "ProfitLockStart", kind: "value", looserWhen: "higher" },
+  { field: "dailyLossLimit", label: "Daily Realized Loss", cfgKey: "DayLossLimit", kind: "loss", looserWhen: "higher" },
+  { field: "profitLockDrawdown", label: "Profit Lock Drawdown", cfgKey: "ProfitLockDrawdown%", kind: "percent", looserWhen: "higher" },
+  { field: "stopTime", label: "Stop Time (ET)", cfgKey: "StopTime", kind: "time", looserWhen: "higher" },
+  { field: "autoStopLoss", label: "Auto Stop Loss", cfgKey: "AutoStopLoss", kind: "flag", looserWhen: "lower" },
+  { field: "disableNewOrders", label: "Disable New Orders", cfgKey: "DisableNewOrders", kind: "flag", looserWhen: "lower" },
+  { field: "liquidateAllPositions", label: "Liquidate All Positions", cfgKey: "LiquidateAllPositions", kind: "flag", looserWhen: "lower" },
+  { field: "maxSharesPerPosition", label: "Max Shares Per Position", cfgKey: "MaxSharesPerPosition", kind: "count", looserWhen: "higher" },
+  { field: "maxOrderSize", label: "Max Order Size", cfgKey: "MaxOrderSize", kind: "count", looserWhen: "higher" },
+  { field: "maxDailyTrades", label: "Max Daily Trades", cfgKey: "MaxDailyTrades", kind: "count", looserWhen: "higher" },
+  { field: "maxPositions", label: "Max Concurrent Positions", cfgKey: "MaxPositions", kind: "count", looserWhen: "higher" },
+];
+
+export function settingLabel(field: FlatField): string {
+  return SETTING_FIELDS.find(f => f.field === field)?.label ?? field;
+}
+
+export interface FieldDiff extends SettingField {
+  current: FlatValue;
+  baseline: FlatValue;
+  currentDollars: number | null;  // DAS dollar value at the current equity, for dollar-based keys
+  baselineDollars: number | null;
+  direction: ChangeDirection;
+}
+
+// DAS dollar value of a fractional setting at `equity`; null for keys DAS does not scale
+export function dollarValue(kind: FieldKind, fraction: number, equity: number): number | null {
+  if (kind === "loss") return Math.round(-(equity * fraction));
+  if (kind === "value") return Math.round(equity * fraction);
+  return null;
+}
+
+// DAS dollar value of a setting as written to the cfg, after equity tiers and dollar clamps
+export function settingDollars(f: SettingField, settings: RiskSettings, equity: number): number | null {
+  if (!SCALED_FIELDS.includes(f.field as ScaledField)) return dollarValue(f.kind, settings[f.field] as number, equity);
+  const { amount } = scaleLimits(settings, equity)[f.field as ScaledField];
+  return Math.round(f.kind === "loss" ? -amount : amount);
+}
+
+// How a setting reads in the UI: fractions as percents, 0 counts as "No limit"
+export function formatSetting(f: SettingField, value: FlatValue): string {
+  switch (f.kind) {
+    case "loss":
+    case "value":
+    case "percent":
+      return pct(value as number, 2);
+    case "flag":
+      return value ? "On" : "Off";
+    case "time":
+      return (value as string) || "—";
+    case "count":
+      return (value as number) === 0 ? "No limit" : (value as number).toLocaleString();
+  }
+}
+
+// Numeric rank where bigger means more room. 0 / "" means "no limit" for limits, so it ranks loosest.
+function rank(f: SettingField, value: FlatValue): number {
+  if (f.kind === "flag") return value ? 1 : 0;
+  if (f.kind === "time") {
+    if (value === "") return Infinity;
+    const [h, m] = String(value).split(":").map(Number);
+    return h * 60 + m;
+  }
+  const n = value as number;
+  return n === 0 && f.kind !== "percent" ? Infinity : n;
+}
+
+function direction(f: SettingField, current: FlatValue, baseline: FlatValue): ChangeDirection {
+  const a = rank(f, current);
+  const b = rank(f, baseline);
+  if (a === b || (Number.isNaN(a) && Number.isNaN(b))) return "same";
+  const higher = a > b;
+  return (f.looserWhen === "higher") === higher ? "looser" : "tighter";
+}
+
+/**
+ * Compare `current` against `baseline` field by field. `direction` says whether
+ * moving from the baseline to the current settings gives the trader more room
+ * (looser) or less (tighter).
+ */
+export function diffSettings(current: RiskSettings, baseline: RiskSettings, equity: number): FieldDiff[] {
+  return SETTING_FIELDS.map(f => {
+    const cur = current[f.field];
+    const base = baseline[f.field];
+    return {
+      ...f,
+      current: cur,
+      baseline: base,
+      currentDollars: settingDollars(f, current, equity),
+      baselineDollars: settingDollars(f, baseline, equity),
+      direction: direction(f, cur, base),
+    };
+  });
+}
@@ -0,0 +1,33 @@
+import { type DasStatus } from "@/lib/das-cmd";
+import { type AccountSnapshot } from "@/lib/snapshot";
+
+// Server-side fan-out from the snapshot sources (HTTP pushes, the DAS client) to open event streams
+export type FeedMessage =
+  | { event: "snapshot"; data: AccountSnapshot }
+  | { event: "das-status"; data: DasStatus };
+
+type Listener = (message: FeedMessage) => void;
+
+interface Hub {
+  listeners: Set<Listener>;
+  dasStatus: DasStatus | null;
+}
+
+// Kept on globalThis so every route bundle, and dev-server reloads, share one hub
+const store = globalThis as typeof globalThis & { cobraFeedHub?: Hub };
+const hub = (store.cobraFeedHub ??= { listeners: new Set(), dasStatus: null });
+
+export function subscribe(listener: Listener): () => void {
+  hub.listeners.add(listener);
+  if (hub.dasStatus) listener({ event: "das-status", data: hub.dasStatus });
+  return () => { hub.listeners.delete(listener); };
+}
+
+export function publish(message: FeedMessage) {
+  if (message.event === "das-status") hub.dasStatus = message.data;
+  hub.listeners.forEach(send => send(message));
+}
+
+export function listenerCount(): number {
+  return hub.listeners.size;
+}
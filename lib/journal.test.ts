@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { priorClose, recordEntry, rollingDrawdown, type JournalEntry } from "@/lib/journal";
+
+function entry(date: string, equity: number, profileId = "main"): JournalEntry {
+  return { id: `${profileId}-${date}`, profileId, date, equity, pnl: 0, mode: "Standard", haltedExposure: 0, totalLossLimitPct: 0.15, breaches: [], flattened: false };
+}
+
+describe("rollingDrawdown", () => {
+  it("measures each close against the running peak", () => {
+    const points = rollingDrawdown([entry("2026-03-09", 100_000), entry("2026-03-10", 90_000), entry("2026-03-11", 110_000), entry("2026-03-12", 99_000)]);
+    expect(points.map(p => p.peak)).toEqual([100_000, 100_000, 110_000, 110_000]);
+    expect(points.map(p => p.drawdown)).toEqual([0, expect.closeTo(-0.1), 0, expect.closeTo(-0.1)]);
+    expect(points[0].limit).toBe(-0.15);
+  });
+
+  it("is 0 while equity has never been positive", () => {
+    expect(rollingDrawdown([entry("2026-03-09", 0)])[0].drawdown).toBe(0);
+  });
+});
+
+describe("priorClose", () => {
+  const journal = [entry("2026-03-09", 100_000), entry("2026-03-11", 95_000), entry("2026-03-10", 98_000, "other")];
+
+  it("takes the account's last close strictly before the date", () => {
+    expect(priorClose(journal, "main", "2026-03-12")?.equity).toBe(95_000);
+    expect(priorClose(journal, "main", "2026-03-11")?.equity).toBe(100_000);
+    expect(priorClose(journal, "main", "2026-03-09")).toBeNull();
+  });
+
+  it("sees a corrected close that replaced the earlier one", () => {
+    const corrected = recordEntry(journal, { ...entry("2026-03-11", 96_500), id: "fix" });
+    expect(corrected.filter(e => e.profileId === "main").map(e => e.id)).toEqual(["main-2026-03-09", "fix"]);
+    expect(priorClose(corrected, "main", "2026-03-12")?.equity).toBe(96_500);
+  });
+});
@@ -0,0 +1,99 @@
+import { type Mode } from "@/lib/calc";
+import { type ProfileEvaluation, type AccountProfile } from "@/lib/profiles";
+import { type Status } from "@/lib/risk";
+import { newId } from "@/lib/utils";
+
+export interface JournalBreach {
+  check: string;
+  status: Exclude<Status, "Safe">;
+}
+
+// End-of-day snapshot of one account
+export interface JournalEntry {
+  id: string;
+  profileId: string;
+  date: string;                  // YYYY-MM-DD, local trading date
+  equity: number;
+  pnl: number;                   // Realized + unrealized at close
+  mode: Mode;
+  haltedExposure: number;
+  totalLossLimitPct: number;     // TotalLossLimit in force that day, as a fraction
+  breaches: JournalBreach[];
+  flattened: boolean;            // Flatten recommendation was active at close
+}
+
+export interface DrawdownPoint {
+  date: string;
+  equity: number;
+  peak: number;
+  drawdown: number;              // Equity vs running peak, as a fraction (≤ 0)
+  limit: number;                 // -totalLossLimitPct for that day
+}
+
+export function todayKey(now: Date = new Date()): string {
+  const y = now.getFullYear();
+  const m = String(now.getMonth() + 1).padStart(2, "0");
+  const d = String(now.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+export function closeSession(profile: AccountProfile, evaluation: ProfileEvaluation, date: string): JournalEntry {
+  const { risk, ledger, settings } = evaluation;
+  const checks: [string, Status][] = [
+    ["Drawdown", risk.drawdownStatus],
+    ["Daily Loss Budget", risk.remainingStatus],
+    ["Total Loss", risk.totalLossStatus],
+    ["Halted Exposure", risk.haltedStatus],
+    ["Daily Trades", risk.tradesStatus],
+    ["Profit Lock", risk.profitLock.status],
+    ["Open Exposure", ledger.exposureStatus],
+  ];
+
+  return {
+    id: newId(),
+    profileId: profile.id,
+    date,
+    equity: profile.equity,
+    pnl: risk.totalLossUsed,
+    mode: profile.mode,
+    haltedExposure: profile.haltedExposure,
+    totalLossLimitPct: settings.totalLossLimit,
+    breaches: checks
+      .filter(([, status]) => status !== "Safe")
+      .map(([check, status]) => ({ check, status: status as JournalBreach["status"] })),
+    flattened: risk.flattenNow,
+  };
+}
+
+/**
+ * Add an entry, replacing any earlier close for the same account and date so
+ * re-closing a session corrects it rather than duplicating it.
+ */
+export function recordEntry(journal: JournalEntry[], entry: JournalEntry): JournalEntry[] {
+  const rest = journal.filter(e => !(e.profileId === entry.profileId && e.date === entry.date));
+  return [...rest, entry].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function entriesFor(journal: JournalEntry[], profileId: string): JournalEntry[] {
+  return journal.filter(e => e.profileId === profileId).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Last closing equity strictly before `date`, used as the next session's prior equity
+export function priorClose(journal: JournalEntry[], profileId: string, date: string): JournalEntry | null {
+  const earlier = entriesFor(journal, profileId).filter(e => e.date < date);
+  return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+}
+
+export function rollingDrawdown(entries: JournalEntry[]): DrawdownPoint[] {
+  let peak = 0;
+  return entries.map(e => {
+    peak = Math.max(peak, e.equity);
+    return {
+      date: e.date,
+      equity: e.equity,
+      peak,
+      drawdown: peak > 0 ? e.equity / peak - 1 : 0,
+      limit: -e.totalLossLimitPct,
+    };
+  });
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ALERT_PREFS } from "@/lib/alerts";
+import { DEFAULT_THRESHOLDS, PRESET_MAP } from "@/lib/calc";
+import { BACKUP_KEY, SCHEMA_VERSION, STATE_KEY, emptyState, loadState, migrate, normalizeState, saveState } from "@/lib/persisted-state";
+import { defaultProfile } from "@/lib/profiles";
+import { DEFAULT_HOLIDAYS } from "@/lib/session";
+
+// localStorage stand-in; per-key values are given as they were saved, through JSON.stringify
+function memoryStorage(values: Record<string, unknown> = {}, text: Record<string, string> = {}): Storage {
+  const items = new Map([...Object.entries(values).map(([k, v]): [string, string] => [k, JSON.stringify(v)]), ...Object.entries(text)]);
+  return {
+    get length() { return items.size; },
+    key: (i) => [...items.keys()][i] ?? null,
+    getItem: (k) => items.get(k) ?? null,
+    setItem: (k, v) => { items.set(k, String(v)); },
+    removeItem: (k) => { items.delete(k); },
+    clear: () => items.clear(),
+  };
+}
+
+const flatV1 = {
+  dailyLossLimit: 0, totalLossLimit: 0.07, perSymbolLossLimit: 0.015, perSymbolExposureLimit: 0.1, totalExposureLimit: 0.4,
+  profitLockStart: 0.05, profitLockDrawdown: 0.25, stopTime: "15:40", autoStopLoss: true, disableNewOrders: true, liquidateAllPositions: false,
+};
+
+describe("schema 0 per-key values", () => {
+  it("builds the first account from the single-account keys", () => {
+    const storage = memoryStorage({ risk_mode: "Aggressive", equity: 80_000, prior_equity: 78_500, todays_pnl: -600, trade_count: 12 });
+    const { state, report } = loadState(storage);
+    expect(report.source).toBe("per-key");
+    expect(report.migratedFrom).toBe(0);
+    expect(report.issues).toEqual([]);
+    expect(state.version).toBe(SCHEMA_VERSION);
+    expect(state.profiles).toHaveLength(1);
+    expect(state.profiles[0]).toMatchObject({ name: "Main Account", mode: "Aggressive", equity: 80_000, priorEquity: 78_500, todaysPnL: -600, tradeCount: 12 });
+    expect(state.activeProfileId).toBe(state.profiles[0].id);
+    expect(state.holidays).toEqual(DEFAULT_HOLIDAYS);
+    expect(state.alertPrefs).toEqual(DEFAULT_ALERT_PREFS);
+  });
+
+  it("reads the first Custom slot and fills the fields it predates", () => {
+    const { state, report } = loadState(memoryStorage({ risk_mode: "Custom", custom_settings: flatV1 }));
+    expect(state.profiles[0].customSettings).toEqual({ ...PRESET_MAP.Custom, ...flatV1 });
+    expect(report.filled).toContain("profiles[0].customSettings.maxDailyTrades missing; using default");
+    expect(report.issues).toEqual([]);
+  });
+
+  it("prefers custom_settings_v2 over the first Custom slot", () => {
+    const v2 = { ...PRESET_MAP.Custom, totalLossLimit: 0.09, maxPositions: 3 };
+    const { state } = loadState(memoryStorage({ custom_settings: flatV1, custom_settings_v2: v2 }));
+    expect(state.profiles[0].customSettings).toEqual(v2);
+  });
+
+  it("keeps multi-account keys over the single-account ones", () => {
+    const work = { ...defaultProfile("Work"), equity: 40_000 };
+    const play = { ...defaultProfile("Play"), mode: "Conservative" };
+    const { state } = loadState(memoryStorage({
+      profiles: [work, play], active_profile: play.id, equity: 99_999,
+      custom_presets: [], alert_prefs: { desktop: false, sound: true, snoozeMinutes: 10 },
+    }));
+    expect(state.profiles.map(p => p.name)).toEqual(["Work", "Play"]);
+    expect(state.profiles[0].equity).toBe(40_000);
+    expect(state.activeProfileId).toBe(play.id);
+    expect(state.alertPrefs).toEqual({ desktop: false, sound: true, snoozeMinutes: 10 });
+  });
+
+  it("resets a per-key value that is not JSON, keeps the rest and backs every value up as saved", () => {
+    const storage = memoryStorage({ equity: 61_000 }, { todays_pnl: "{oops" });
+    const { state, report } = loadState(storage);
+    expect(state.profiles[0].equity).toBe(61_000);
+    expect(state.profiles[0].todaysPnL).toBe(defaultProfile("").todaysPnL);
+    expect(report.issues).toEqual(['Saved value "todays_pnl" is not valid JSON; using the default']);
+    expect(report.backupKey).toBe(BACKUP_KEY);
+    expect(JSON.parse(storage.getItem(BACKUP_KEY)!)).toEqual({ equity: "61000", todays_pnl: "{oops" });
+  });
+
+  it("backs up per-key values even when none of them can be read", () => {
+    const storage = memoryStorage({}, { profiles: "[{", equity: "5.5.5" });
+    const { report } = loadState(storage);
+    expect(report.source).toBe("fresh");
+    expect(report.issues).toHaveLength(2);
+    expect(JSON.parse(storage.getItem(BACKUP_KEY)!)).toEqual({ profiles: "[{", equity: "5.5.5" });
+  });
+
+  it("migrates a version 0 document directly", () => {
+    const doc = migrate({ version: 0, keys: { journal: [], market_holidays: [] } });
+    expect(doc.version).toBe(1);
+    expect(doc.holidays).toEqual([]);
+    expect(doc.audit).toEqual([]);
+  });
+});
+
+describe("loadState", () => {
+  it("starts fresh when nothing was saved", () => {
+    const { state, report } = loadState(memoryStorage());
+    expect(report).toMatchObject({ source: "fresh", migratedFrom: null, issues: [], backupKey: null });
+    expect(state.profiles).toHaveLength(1);
+  });
+
+  it("reads back what saveState wrote", () => {
+    const storage = memoryStorage();
+    const saved = { ...emptyState(), profiles: [{ ...defaultProfile("Desk"), customThresholds: DEFAULT_THRESHOLDS }] };
+    saved.activeProfileId = saved.profiles[0].id;
+    saveState(storage, saved);
+    const { state, report } = loadState(storage);
+    expect(report.issues).toEqual([]);
+    expect(report.filled).toEqual([]);
+    expect(state).toEqual(saved);
+  });
+
+  it("starts fresh on corrupt JSON and backs the text up", () => {
+    const storage = memoryStorage({}, { [STATE_KEY]: "{\"version\":1,\"profiles\":[" });
+    const { state, report } = loadState(storage);
+    expect(report.issues).toEqual(["Saved state is not valid JSON; starting fresh"]);
+    expect(report.backupKey).toBe(BACKUP_KEY);
+    expect(storage.getItem(BACKUP_KEY)).toBe("{\"version\":1,\"profiles\":[");
+    expect(state.profiles.map(p => p.name)).toEqual(["Main Account"]);
+  });
+
+  it("leaves storage untouched when the backup is turned off", () => {
+    const storage = memoryStorage({}, { [STATE_KEY]: "not json" });
+    const { report } = loadState(storage, false);
+    expect(report.issues).toEqual(["Saved state is not valid JSON; starting fresh"]);
+    expect(report.backupKey).toBeNull();
+    expect(storage.length).toBe(1);
+  });
+
+  it("starts fresh on a document with no version and backs it up", () => {
+    const text = JSON.stringify({ profiles: [defaultProfile("Lost")] });
+    const storage = memoryStorage({}, { [STATE_KEY]: text });
+    const { state, report } = loadState(storage);
+    expect(report.issues).toEqual(["Saved state has no schema version; starting fresh"]);
+    expect(storage.getItem(BACKUP_KEY)).toBe(text);
+    expect(state.profiles.map(p => p.name)).toEqual(["Main Account"]);
+  });
+
+  it("keeps the known fields of a newer schema and backs the original up", () => {
+    const profile = { ...defaultProfile("Future"), equity: 70_000, leverage: 4 };
+    const text = JSON.stringify({ ...emptyState(), version: SCHEMA_VERSION + 1, profiles: [profile], activeProfileId: profile.id, watchlists: [] });
+    const storage = memoryStorage({}, { [STATE_KEY]: text });
+    const { state, report } = loadState(storage);
+    expect(report.issues).toEqual([`Saved by a newer version of the dashboard (schema ${SCHEMA_VERSION + 1}); only the fields this version knows were kept`]);
+    expect(report.migratedFrom).toBeNull();
+    expect(report.backupKey).toBe(BACKUP_KEY);
+    expect(storage.getItem(BACKUP_KEY)).toBe(text);
+    expect(state.version).toBe(SCHEMA_VERSION);
+    expect(state.profiles[0]).toMatchObject({ name: "Future", equity: 70_000 });
+    expect(state.profiles[0]).not.toHaveProperty("leverage");
+  });
+});
+
+describe("normalizeState", () => {
+  it("fills fields missing from older documents", () => {
+    const { customThresholds: _thresholds, ...older } = defaultProfile("Old");
+    const { equityTiers: _tiers, dollarClamps: _clamps, ...flat } = older.customSettings;
+    const filled: string[] = [];
+    const issues: string[] = [];
+    const state = normalizeState({ version: 1, profiles: [{ ...older, customSettings: flat }] }, filled, issues);
+
+    expect(issues).toEqual([]);
+    expect(state.profiles[0].customSettings).toEqual(PRESET_MAP.Custom);
+    expect(state.profiles[0].customThresholds).toEqual(DEFAULT_THRESHOLDS);
+    expect(state.activeProfileId).toBe(older.id);
+    expect(state.alertPrefs).toEqual(DEFAULT_ALERT_PREFS);
+    expect(state.holidays).toEqual(DEFAULT_HOLIDAYS);
+    expect(state.journal).toEqual([]);
+    expect(filled).toEqual(expect.arrayContaining([
+      "profiles[0].customThresholds missing; using defaults",
+      "alertPrefs missing; using defaults",
+    ]));
+  });
+
+  it("resets mistyped values and drops unreadable entries", () => {
+    const issues: string[] = [];
+    const state = normalizeState({
+      version: 1,
+      profiles: [{ ...defaultProfile("Typo"), equity: "lots", mode: "YOLO" }, { name: "no id" }],
+      presets: "none",
+    }, [], issues);
+    expect(state.profiles).toHaveLength(1);
+    expect(state.profiles[0].equity).toBe(defaultProfile("").equity);
+    expect(state.profiles[0].mode).toBe("Standard");
+    expect(state.presets).toEqual([]);
+    expect(issues).toEqual([
+      "profiles[0].equity should be a number; using default",
+      'profiles[0].mode "YOLO" is not a risk mode; using Standard',
+      "profiles[1] could not be read; dropped",
+      "presets should be a list; dropped",
+    ]);
+  });
+});
@@ -0,0 +1,286 @@
+import { DEFAULT_ALERT_PREFS, type AlertPrefs } from "@/lib/alerts";
+import { AUDIT_KINDS, DEFAULT_AUDIT_PREFS, type AuditEntry, type AuditPrefs } from "@/lib/audit";
+import { DEFAULT_THRESHOLDS, type Mode } from "@/lib/calc";
+import { type JournalEntry } from "@/lib/journal";
+import { readPositions } from "@/lib/positions";
+import { type NamedPreset } from "@/lib/presets";
+import { defaultProfile, type AccountProfile } from "@/lib/profiles";
+import { DEFAULT_HOLIDAYS, type MarketHoliday } from "@/lib/session";
+import { readSettings } from "@/lib/tiers";
+import { isRecord, readFields } from "@/lib/utils";
+
+// Everything the dashboard keeps in localStorage, as one versioned document
+export const STATE_KEY = "cobra_state";
+export const BACKUP_KEY = "cobra_state_backup";
+export const SCHEMA_VERSION = 1;
+
+export interface PersistedState {
+  version: number;
+  profiles: AccountProfile[];
+  activeProfileId: string;
+  journal: JournalEntry[];
+  presets: NamedPreset[];
+  holidays: MarketHoliday[];
+  alertPrefs: AlertPrefs;
+  auditPrefs: AuditPrefs;
+  audit: AuditEntry[];
+}
+
+export interface LoadReport {
+  source: "document" | "per-key" | "fresh";
+  migratedFrom: number | null;   // Schema version upgraded from, when a migration ran
+  filled: string[];              // Fields absent from older data, set to their defaults
+  issues: string[];              // Values that could not be read and were reset or dropped
+  backupKey: string | null;      // Where the original text was kept when anything was lost
+}
+
+const MODES: Mode[] = ["Conservative", "Standard", "Aggressive", "Custom"];
+
+// Schema 0: one localStorage key per value. The multi-account keys...
+const PER_KEY_STATE = ["profiles", "active_profile", "journal", "custom_presets", "market_holidays", "alert_prefs"];
+
+// ...and, before accounts existed, the single-account keys. `custom_settings` is
+// the first Custom slot, replaced by `custom_settings_v2` when RiskSettings grew.
+const SINGLE_ACCOUNT_KEYS: Record<string, keyof AccountProfile> = {
+  risk_mode: "mode",
+  equity: "equity",
+  prior_equity: "priorEquity",
+  todays_pnl: "todaysPnL",
+  halted_exposure: "haltedExposure",
+  custom_settings: "customSettings",
+  custom_settings_v2: "customSettings",
+  positions: "positions",
+  trade_count: "tradeCount",
+  pnl_high_water: "pnlHighWater",
+};
+
+type RawDoc = Record<string, unknown>;
+
+/**
+ * Upgrade steps, keyed by the version they upgrade from. Each takes a document
+ * of that version and returns one of the next; shapes are checked afterwards by
+ * `normalizeState`, so a step only has to move data, not validate it.
+ */
+const MIGRATIONS: Record<number, (doc: RawDoc) => RawDoc> = {
+  0: (doc) => {
+    const keys = isRecord(doc.keys) ? doc.keys : {};
+    const profiles = Array.isArray(keys.profiles) && keys.profiles.length > 0 ? keys.profiles : [singleAccountProfile(keys)];
+    return {
+      version: 1,
+      profiles,
+      activeProfileId: keys.active_profile ?? "",
+      journal: keys.journal ?? [],
+      presets: keys.custom_presets ?? [],
+      holidays: keys.market_holidays ?? DEFAULT_HOLIDAYS,
+      alertPrefs: keys.alert_prefs ?? DEFAULT_ALERT_PREFS,
+      auditPrefs: DEFAULT_AUDIT_PREFS,
+      audit: [],
+    };
+  },
+};
+
+// The first account, from the keys written before profile support
+function singleAccountProfile(keys: Record<string, unknown>): RawDoc {
+  const profile: RawDoc = { ...defaultProfile("Main Account") };
+  for (const [key, field] of Object.entries(SINGLE_ACCOUNT_KEYS)) {
+    if (keys[key] === undefined) continue;
+    // The v1 Custom slot only counts when no v2 slot was ever written; missing fields are filled later
+    if (key === "custom_settings" && keys.custom_settings_v2 !== undefined) continue;
+    profile[field] = keys[key];
+  }
+  return profile;
+}
+
+export function migrate(doc: RawDoc): RawDoc {
+  let current = doc;
+  while (typeof current.version === "number" && current.version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new Error(`No migration from schema ${current.version}`);
+    current = step(current);
+  }
+  return current;
+}
+
+export function emptyState(): PersistedState {
+  return { version: SCHEMA_VERSION, profiles: [], activeProfileId: "", journal: [], presets: [], holidays: DEFAULT_HOLIDAYS, alertPrefs: DEFAULT_ALERT_PREFS, auditPrefs: DEFAULT_AUDIT_PREFS, audit: [] };
+}
+
+function readMode(raw: unknown, label: string, issues: string[]): Mode {
+  if (MODES.includes(raw as Mode)) return raw as Mode;
+  issues.push(`${label} "${String(raw)}" is not a risk mode; using Standard`);
+  return "Standard";
+}
+
+function readList<T>(raw: unknown, label: string, issues: string[], read: (item: unknown, label: string) => T | null): T[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push(`${label} should be a list; dropped`);
+    return [];
+  }
+  return raw.flatMap((item, i) => {
+    const value = read(item, `${label}[${i}]`);
+    if (value === null) issues.push(`${label}[${i}] could not be read; dropped`);
+    return value === null ? [] : [value];
+  });
+}
+
+const hasId = (raw: unknown): raw is RawDoc & { id: string } => isRecord(raw) && typeof raw.id === "string" && raw.id !== "";
+
+/**
+ * Check a current-version document field by field. Missing fields (data saved
+ * before the field existed) take their defaults and are listed in `filled`;
+ * mistyped values are reset or dropped and listed in `issues`.
+ */
+export function normalizeState(raw: RawDoc, filled: string[], issues: string[]): PersistedState {
+  const profiles = readList(raw.profiles, "profiles", issues, (p, label): AccountProfile | null => {
+    if (!hasId(p)) return null;
+    const { positions: _positions, customSettings: _settings, customThresholds: _thresholds, presetId: _presetId, ...scalars } = defaultProfile("");
+    const base = readFields(p, scalars, label, issues, filled);
+    return {
+      ...base,
+      id: p.id,
+      mode: readMode(base.mode, `${label}.mode`, issues),
+      customSettings: readSettings(p.customSettings, `${label}.customSettings`, issues, filled),
+      customThresholds: readFields(p.customThresholds, DEFAULT_THRESHOLDS, `${label}.customThresholds`, issues, filled),
+      presetId: typeof p.presetId === "string" ? p.presetId : null,
+      positions: readPositions(p.positions, `${label}.positions`, issues),
+      ...(typeof p.reportedUnrealizedPnL === "number" && Number.isFinite(p.reportedUnrealizedPnL) ? { reportedUnrealizedPnL: p.reportedUnrealizedPnL } : {}),
+    };
+  });
+  if (profiles.length === 0) profiles.push(defaultProfile("Main Account"));
+
+  const presets = readList(raw.presets, "presets", issues, (p, label): NamedPreset | null => {
+    if (!hasId(p) || typeof p.name !== "string") return null;
+    return {
+      id: p.id,
+      name: p.name,
+      settings: readSettings(p.settings, `${label}.settings`, issues, filled),
+      thresholds: readFields(p.thresholds, DEFAULT_THRESHOLDS, `${label}.thresholds`, issues, filled),
+      basedOn: MODES.includes(p.basedOn as Mode) ? p.basedOn as Mode : null,
+    };
+  });
+
+  const journal = readList(raw.journal, "journal", issues, (e, label): JournalEntry | null => {
+    if (!hasId(e) || typeof e.profileId !== "string" || typeof e.date !== "string") return null;
+    const template: Omit<JournalEntry, "breaches"> = { id: e.id, profileId: e.profileId, date: e.date, equity: 0, pnl: 0, mode: "Standard", haltedExposure: 0, totalLossLimitPct: 0, flattened: false };
+    const entry = readFields(e, template, label, issues, filled);
+    return { ...entry, mode: readMode(entry.mode, `${label}.mode`, issues), breaches: Array.isArray(e.breaches) ? e.breaches : [] };
+  });
+
+  if (raw.holidays !== undefined && !Array.isArray(raw.holidays)) issues.push("holidays should be a list; using the default calendar");
+  const holidays = !Array.isArray(raw.holidays) ? DEFAULT_HOLIDAYS : readList(raw.holidays, "holidays", issues, (h): MarketHoliday | null => {
+    if (!isRecord(h) || typeof h.date !== "string" || typeof h.name !== "string") return null;
+    return { date: h.date, name: h.name, ...(typeof h.earlyClose === "string" ? { earlyClose: h.earlyClose } : {}) };
+  });
+
+  const audit = readList(raw.audit, "audit", issues, (e, label): AuditEntry | null => {
+    if (!hasId(e) || !AUDIT_KINDS.some(k => k.kind === e.kind)) return null;
+    const template: AuditEntry = { id: e.id, at: "", profileId: "", account: "", kind: e.kind as AuditEntry["kind"], field: "", before: "", after: "", loosened: false, reason: "" };
+    return readFields(e, template, label, issues);
+  });
+
+  const activeProfileId = typeof raw.activeProfileId === "string" && profiles.some(p => p.id === raw.activeProfileId)
+    ? raw.activeProfileId
+    : profiles[0].id;
+
+  return {
+    version: SCHEMA_VERSION,
+    profiles,
+    activeProfileId,
+    journal,
+    presets,
+    holidays,
+    alertPrefs: readFields(raw.alertPrefs, DEFAULT_ALERT_PREFS, "alertPrefs", issues, filled),
+    auditPrefs: readFields(raw.auditPrefs, DEFAULT_AUDIT_PREFS, "auditPrefs", issues, filled),
+    audit,
+  };
+}
+
+// Schema 0 snapshot of whatever per-key values this browser still has, with their text as saved
+function readPerKeyValues(storage: Storage, issues: string[]): { doc: RawDoc | null; texts: Record<string, string> } {
+  const keys: Record<string, unknown> = {};
+  const texts: Record<string, string> = {};
+  for (const key of [...PER_KEY_STATE, ...Object.keys(SINGLE_ACCOUNT_KEYS)]) {
+    const text = storage.getItem(key);
+    if (text === null) continue;
+    texts[key] = text;
+    try {
+      keys[key] = JSON.parse(text);
+    } catch {
+      issues.push(`Saved value "${key}" is not valid JSON; using the default`);
+    }
+  }
+  return { doc: Object.keys(keys).length > 0 ? { version: 0, keys } : null, texts };
+}
+
+/**
+ * Read the state document, upgrading older schemas (including the per-key
+ * values written before the document existed). Never throws: anything that
+ * cannot be read is reset to defaults, and unless `backup` is false the
+ * original text is copied to BACKUP_KEY so it can be recovered by hand. For
+ * per-key values that is one JSON object of each key's text as saved.
+ */
+export function loadState(storage: Storage, backup = true): { state: PersistedState; report: LoadReport } {
+  const filled: string[] = [];
+  const issues: string[] = [];
+  const text = storage.getItem(STATE_KEY);
+  let original = text;
+
+  let raw: RawDoc | null = null;
+  let source: LoadReport["source"] = "document";
+  if (text !== null) {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (isRecord(parsed) && typeof parsed.version === "number") raw = parsed;
+      else issues.push("Saved state has no schema version; starting fresh");
+    } catch {
+      issues.push("Saved state is not valid JSON; starting fresh");
+    }
+  } else {
+    const perKey = readPerKeyValues(storage, issues);
+    raw = perKey.doc;
+    source = raw ? "per-key" : "fresh";
+    if (Object.keys(perKey.texts).length > 0) original = JSON.stringify(perKey.texts);
+  }
+
+  const from = raw ? raw.version as number : null;
+  if (raw && from! > SCHEMA_VERSION) {
+    issues.push(`Saved by a newer version of the dashboard (schema ${from}); only the fields this version knows were kept`);
+  }
+
+  let doc: RawDoc = { ...emptyState() };
+  if (raw) {
+    try {
+      doc = migrate(raw);
+    } catch (e) {
+      issues.push(`Could not upgrade saved state: ${(e as Error).message}; starting fresh`);
+    }
+  }
+  const state = normalizeState(doc, filled, issues);
+
+  let backupKey: string | null = null;
+  if (backup && issues.length > 0 && original !== null) {
+    storage.setItem(BACKUP_KEY, original);
+    backupKey = BACKUP_KEY;
+  }
+
+  return {
+    state,
+    report: { source, migratedFrom: from !== null && from < SCHEMA_VERSION ? from : null, filled, issues, backupKey },
+  };
+}
+
+export function saveState(storage: Storage, state: PersistedState) {
+  storage.setItem(STATE_KEY, JSON.stringify({ ...state, version: SCHEMA_VERSION }));
+}
+
+// A document another tab just wrote; null when it cannot be read, so the caller keeps what it has
+export function parseState(text: string): PersistedState | null {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (!isRecord(parsed) || typeof parsed.version !== "number") return null;
+    return normalizeState(migrate(parsed), [], []);
+  } catch {
+    return null;
+  }
+}
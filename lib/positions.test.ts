@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_THRESHOLDS, PRESET_MAP } from "@/lib/calc";
+import { evaluatePositions, type Position } from "@/lib/positions";
+
+const EQUITY = 100_000;
+
+// Standard allows a $3,500 unrealized loss per symbol at $100k
+const losing = (lastPrice: number): Position => ({ id: "AAPL-Long", symbol: "AAPL", side: "Long", shares: 100, avgPrice: 190, lastPrice });
+
+describe("evaluatePositions", () => {
+  it("colours a position's loss with the account's loss bands", () => {
+    const at = (lastPrice: number, thresholds = DEFAULT_THRESHOLDS) =>
+      evaluatePositions([losing(lastPrice)], PRESET_MAP.Standard, EQUITY, thresholds).rows[0].lossStatus;
+
+    expect(at(170)).toBe("Caution");  // $2,000, 57% of the limit
+    expect(at(160)).toBe("Danger");   // $3,000, 86%
+
+    const wider = { ...DEFAULT_THRESHOLDS, lossCaution: 0.6, lossDanger: 0.9 };
+    expect(at(170, wider)).toBe("Safe");
+    expect(at(160, wider)).toBe("Caution");
+  });
+});
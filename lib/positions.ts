@@ -0,0 +1,128 @@
+import { DEFAULT_THRESHOLDS, type RiskSettings, type StatusThresholds, dollars, pct } from "@/lib/calc";
+import { computeLimits, worstStatus, type Status } from "@/lib/risk";
+import { newId, readFields } from "@/lib/utils";
+
+export type Side = "Long" | "Short";
+
+export interface Position {
+  id: string;
+  symbol: string;
+  side: Side;
+  shares: number;
+  avgPrice: number;
+  lastPrice: number;
+}
+
+export interface PositionCheck {
+  position: Position;
+  marketValue: number;           // Absolute dollar exposure at the last price
+  unrealizedPnL: number;
+  lossStatus: Status;            // vs PosUnrealLossLimit
+  exposureStatus: Status;        // vs PosMktValueLimit
+  sharesStatus: Status;          // vs MaxSharesPerPosition
+  status: Status;                // Worst of the above
+  reasons: string[];
+}
+
+export interface LedgerEvaluation {
+  rows: PositionCheck[];
+  unrealizedPnL: number;
+  totalExposure: number;
+  totalExposureLimit: number;
+  exposureStatus: Status;        // vs OpenPosValueLimit
+  positionCount: number;
+  positionCountStatus: Status;   // vs MaxPositions
+  status: Status;
+}
+
+export function unrealizedPnL(p: Position): number {
+  const move = (p.lastPrice - p.avgPrice) * p.shares;
+  return p.side === "Long" ? move : -move;
+}
+
+// Positions from an untrusted list (an import or saved state); incomplete rows are skipped
+export function readPositions(raw: unknown, label: string, issues: string[]): Position[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push(`${label} should be a list; ignored`);
+    return [];
+  }
+  const template: Position = { id: "", symbol: "", side: "Long", shares: 0, avgPrice: 0, lastPrice: 0 };
+  return raw.flatMap((row, i) => {
+    const rowIssues: string[] = [];
+    const p = readFields(row, template, `${label}[${i}]`, rowIssues);
+    if (rowIssues.length > 0 || (p.side !== "Long" && p.side !== "Short")) {
+      issues.push(`${label}[${i}] is incomplete; skipped`);
+      return [];
+    }
+    return [{ ...p, id: p.id || newId() }];
+  });
+}
+
+// Exposure and share counts are hard caps in DAS (orders past them are rejected), so they warn near the cap and are Danger past it
+const CAP_CAUTION = 0.8;
+const CAP_DANGER = 1;
+
+// A limit of 0 means "not set" (Custom defaults), so it never trips
+function usageStatus(used: number, limit: number, caution: number, danger: number): Status {
+  if (!(limit > 0)) return "Safe";
+  const ratio = used / limit;
+  return ratio > danger ? "Danger" : ratio > caution ? "Caution" : "Safe";
+}
+
+/**
+ * Check every open position against the per-symbol limits, and the ledger as a
+ * whole against total exposure and max concurrent positions. Unrealized losses
+ * use the same loss bands as the account's Status chips.
+ */
+export function evaluatePositions(positions: Position[], settings: RiskSettings, equity: number, thresholds: StatusThresholds = DEFAULT_THRESHOLDS): LedgerEvaluation {
+  const limits = computeLimits(settings, equity);
+  const symbolLossCap = Math.abs(limits.perSymbolLimit);
+
+  const rows = positions.map((position): PositionCheck => {
+    const marketValue = Math.abs(position.shares * position.lastPrice);
+    const pnl = unrealizedPnL(position);
+    const loss = Math.max(0, -pnl);
+
+    const lossStatus = usageStatus(loss, symbolLossCap, thresholds.lossCaution, thresholds.lossDanger);
+    const exposureStatus = usageStatus(marketValue, limits.perTickerExposure, CAP_CAUTION, CAP_DANGER);
+    const sharesStatus = usageStatus(Math.abs(position.shares), settings.maxSharesPerPosition, CAP_CAUTION, CAP_DANGER);
+
+    const reasons: string[] = [];
+    if (lossStatus !== "Safe") reasons.push(`Unrealized loss ${dollars(loss)} is ${pct(loss / symbolLossCap, 0)} of PosUnrealLossLimit`);
+    if (exposureStatus !== "Safe") reasons.push(`Market value ${dollars(marketValue)} is ${pct(marketValue / limits.perTickerExposure, 0)} of PosMktValueLimit`);
+    if (sharesStatus !== "Safe") reasons.push(`${Math.abs(position.shares).toLocaleString()} shares vs max ${settings.maxSharesPerPosition.toLocaleString()}`);
+
+    return {
+      position,
+      marketValue,
+      unrealizedPnL: pnl,
+      lossStatus,
+      exposureStatus,
+      sharesStatus,
+      status: worstStatus(lossStatus, exposureStatus, sharesStatus),
+      reasons,
+    };
+  });
+
+  const totalExposure = rows.reduce((sum, r) => sum + r.marketValue, 0);
+  const totalPnL = rows.reduce((sum, r) => sum + r.unrealizedPnL, 0);
+  const exposureStatus = usageStatus(totalExposure, limits.totalExposure, CAP_CAUTION, CAP_DANGER);
+
+  const positionCount = positions.filter(p => p.shares !== 0).length;
+  const positionCountStatus: Status = !(settings.maxPositions > 0) ? "Safe"
+    : positionCount > settings.maxPositions ? "Danger"
+    : positionCount === settings.maxPositions ? "Caution"
+    : "Safe";
+
+  return {
+    rows,
+    unrealizedPnL: totalPnL,
+    totalExposure,
+    totalExposureLimit: limits.totalExposure,
+    exposureStatus,
+    positionCount,
+    positionCountStatus,
+    status: worstStatus(exposureStatus, positionCountStatus, ...rows.map(r => r.status)),
+  };
+}
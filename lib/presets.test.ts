@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_MAP, THRESHOLD_MAP } from "@/lib/calc";
+import { createPreset, duplicatePreset, findPreset, presetFromMode, uniqueName } from "@/lib/presets";
+
+describe("uniqueName", () => {
+  const existing = [createPreset("Scalper", PRESET_MAP.Custom), createPreset("scalper 2", PRESET_MAP.Custom)];
+
+  it("keeps a free name and numbers a taken one, ignoring case", () => {
+    expect(uniqueName("Swing", existing)).toBe("Swing");
+    expect(uniqueName("SCALPER", existing)).toBe("SCALPER 3");
+  });
+});
+
+describe("presets", () => {
+  it("copies a built-in mode with its thresholds", () => {
+    const preset = presetFromMode("Aggressive", []);
+    expect(preset).toMatchObject({ name: "Aggressive copy", basedOn: "Aggressive", settings: PRESET_MAP.Aggressive, thresholds: THRESHOLD_MAP.Aggressive });
+    expect(presetFromMode("Aggressive", [preset]).name).toBe("Aggressive copy 2");
+  });
+
+  it("duplicates into a new preset that does not share settings with the original", () => {
+    const original = createPreset("Scalper", { ...PRESET_MAP.Custom, maxPositions: 3 }, "Standard");
+    const copy = duplicatePreset(original, [original]);
+    expect(copy).toMatchObject({ name: "Scalper copy", basedOn: "Standard", settings: original.settings });
+    expect(copy.id).not.toBe(original.id);
+    copy.settings.maxPositions = 10;
+    expect(original.settings.maxPositions).toBe(3);
+  });
+
+  it("finds a preset by id, and nothing for a missing or empty id", () => {
+    const preset = createPreset("Scalper", PRESET_MAP.Custom);
+    expect(findPreset([preset], preset.id)).toBe(preset);
+    expect(findPreset([preset], "gone")).toBeUndefined();
+    expect(findPreset([preset], null)).toBeUndefined();
+  });
+});
@@ -0,0 +1,35 @@
+import { PRESET_MAP, THRESHOLD_MAP, type Mode, type RiskSettings, type StatusThresholds } from "@/lib/calc";
+import { newId } from "@/lib/utils";
+
+// A saved, named set of Custom settings, shared by every account in this browser
+export interface NamedPreset {
+  id: string;
+  name: string;
+  settings: RiskSettings;
+  thresholds?: StatusThresholds; // Absent in presets saved before status bands were editable
+  basedOn: Mode | null;          // Built-in mode it was started from, if any
+}
+
+export function createPreset(name: string, settings: RiskSettings, basedOn: Mode | null = null, thresholds: StatusThresholds = THRESHOLD_MAP.Custom): NamedPreset {
+  return { id: newId(), name, settings: { ...settings }, thresholds: { ...thresholds }, basedOn };
+}
+
+export function presetFromMode(mode: Mode, existing: NamedPreset[]): NamedPreset {
+  return createPreset(uniqueName(`${mode} copy`, existing), PRESET_MAP[mode], mode, THRESHOLD_MAP[mode]);
+}
+
+export function duplicatePreset(preset: NamedPreset, existing: NamedPreset[]): NamedPreset {
+  return createPreset(uniqueName(`${preset.name} copy`, existing), preset.settings, preset.basedOn, preset.thresholds);
+}
+
+export function uniqueName(base: string, existing: NamedPreset[]): string {
+  const taken = new Set(existing.map(p => p.name.toLowerCase()));
+  if (!taken.has(base.toLowerCase())) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`.toLowerCase())) n++;
+  return `${base} ${n}`;
+}
+
+export function findPreset(presets: NamedPreset[], id: string | null | undefined): NamedPreset | undefined {
+  return id ? presets.find(p => p.id === id) : undefined;
+}
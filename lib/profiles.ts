@@ -0,0 +1,94 @@
+import { PRESET_MAP, THRESHOLD_MAP, type Mode, type RiskSettings, type StatusThresholds } from "@/lib/calc";
+import { type CfgSpec } from "@/lib/cfg";
+import { evaluatePositions, type LedgerEvaluation, type Position } from "@/lib/positions";
+import { findPreset, type NamedPreset } from "@/lib/presets";
+import { evaluateRisk, type RiskEvaluation } from "@/lib/risk";
+import { fileSlug, newId } from "@/lib/utils";
+
+// One trading account: its risk mode plus the inputs typed or imported for it
+export interface AccountProfile {
+  id: string;
+  name: string;
+  mode: Mode;
+  customSettings: RiskSettings;  // The unnamed Custom slot
+  customThresholds?: StatusThresholds; // Status bands for the Custom slot; absent in profiles saved before they were editable
+  presetId: string | null;       // Named preset used in Custom mode instead of the slot
+  equity: number;
+  priorEquity: number;
+  todaysPnL: number;
+  haltedExposure: number;
+  positions: Position[];
+  reportedUnrealizedPnL?: number; // Pushed by a feed that sends no positions; replaces the ledger's unrealized P&L
+  tradeCount: number;
+  pnlHighWater: number;
+}
+
+export interface ProfileEvaluation {
+  settings: RiskSettings;
+  thresholds: StatusThresholds;
+  ledger: LedgerEvaluation;
+  unrealizedPnL: number;         // The ledger's, or what a feed reported without positions
+  risk: RiskEvaluation;
+}
+
+export function defaultProfile(name: string): AccountProfile {
+  return {
+    id: newId(),
+    name,
+    mode: "Standard",
+    customSettings: PRESET_MAP.Custom,
+    customThresholds: THRESHOLD_MAP.Custom,
+    presetId: null,
+    equity: 55000,
+    priorEquity: 55000,
+    todaysPnL: 0,
+    haltedExposure: 0,
+    positions: [],
+    tradeCount: 0,
+    pnlHighWater: 0,
+  };
+}
+
+export function profileSettings(profile: AccountProfile, presets: NamedPreset[] = []): RiskSettings {
+  if (profile.mode !== "Custom") return PRESET_MAP[profile.mode];
+  return findPreset(presets, profile.presetId)?.settings ?? profile.customSettings;
+}
+
+export function profileThresholds(profile: AccountProfile, presets: NamedPreset[] = []): StatusThresholds {
+  if (profile.mode !== "Custom") return THRESHOLD_MAP[profile.mode];
+  const preset = findPreset(presets, profile.presetId);
+  return (preset ? preset.thresholds : profile.customThresholds) ?? THRESHOLD_MAP.Custom;
+}
+
+// Mode as shown in the roll-up, e.g. "Custom · Earnings week"
+export function profileModeLabel(profile: AccountProfile, presets: NamedPreset[] = []): string {
+  const preset = profile.mode === "Custom" ? findPreset(presets, profile.presetId) : undefined;
+  return preset ? `Custom · ${preset.name}` : profile.mode;
+}
+
+export function evaluateProfile(profile: AccountProfile, presets: NamedPreset[] = []): ProfileEvaluation {
+  const settings = profileSettings(profile, presets);
+  const thresholds = profileThresholds(profile, presets);
+  const ledger = evaluatePositions(profile.positions, settings, profile.equity, thresholds);
+  const unrealizedPnL = profile.reportedUnrealizedPnL ?? ledger.unrealizedPnL;
+  const risk = evaluateRisk(settings, {
+    equity: profile.equity,
+    priorEquity: profile.priorEquity,
+    todaysPnL: profile.todaysPnL,
+    haltedExposure: profile.haltedExposure,
+    unrealizedPnL,
+    tradeCount: profile.tradeCount,
+    pnlHighWater: profile.pnlHighWater,
+  }, thresholds);
+  return { settings, thresholds, ledger, unrealizedPnL, risk };
+}
+
+export function profileSlug(profile: AccountProfile): string {
+  return fileSlug(profile.name);
+}
+
+// What the account's cfg is built from, as renderCfg takes it
+export function profileCfgSpec(profile: AccountProfile, presets: NamedPreset[] = []): CfgSpec {
+  const preset = profile.mode === "Custom" ? findPreset(presets, profile.presetId) : undefined;
+  return { account: profile.name, mode: profile.mode, settings: profileSettings(profile, presets), equity: profile.equity, preset: preset?.name };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_THRESHOLDS, PRESET_MAP, type Mode, type RiskSettings } from "@/lib/calc";
+import { computeLimits, evaluateRisk, type AccountInputs, type RiskLimits } from "@/lib/risk";
+
+const EQUITY = 100_000;
+const quiet: AccountInputs = { equity: EQUITY, priorEquity: EQUITY, todaysPnL: 0, haltedExposure: 0 };
+
+function expectLimits(actual: RiskLimits, expected: RiskLimits) {
+  for (const key of Object.keys(expected) as (keyof RiskLimits)[]) {
+    expect(actual[key], key).toBeCloseTo(expected[key], 6);
+  }
+}
+
+const BUILT_IN: { mode: Exclude<Mode, "Custom">; limits: RiskLimits }[] = [
+  {
+    mode: "Conservative",
+    limits: { dayLossLimit: 0, totalLossLimit: -10_000, perSymbolLimit: -2_000, perTickerExposure: 10_000, totalExposure: 40_000, profitLockStart: 6_000, profitLockDrawdown: 0.3 },
+  },
+  {
+    mode: "Standard",
+    limits: { dayLossLimit: 0, totalLossLimit: -15_000, perSymbolLimit: -3_500, perTickerExposure: 15_000, totalExposure: 50_000, profitLockStart: 9_000, profitLockDrawdown: 0.3 },
+  },
+  {
+    mode: "Aggressive",
+    limits: { dayLossLimit: 0, totalLossLimit: -20_000, perSymbolLimit: -5_000, perTickerExposure: 20_000, totalExposure: 60_000, profitLockStart: 12_000, profitLockDrawdown: 0.35 },
+  },
+];
+
+describe.each(BUILT_IN)("$mode preset", ({ mode, limits }) => {
+  const settings = PRESET_MAP[mode];
+  const budget = -limits.totalLossLimit;
+
+  it("scales every dollar limit with equity", () => {
+    expectLimits(computeLimits(settings, EQUITY), limits);
+  });
+
+  it("is Safe on a quiet day", () => {
+    const risk = evaluateRisk(settings, quiet);
+    expect([risk.drawdownStatus, risk.remainingStatus, risk.totalLossStatus, risk.haltedStatus]).toEqual(["Safe", "Safe", "Safe", "Safe"]);
+    expect(risk.flattenNow).toBe(false);
+    expect(risk.budget.source).toBe("TotalLossLimit");
+    expect(risk.remainingBudget).toBeCloseTo(budget);
+  });
+
+  it("turns Caution past half the loss budget", () => {
+    const risk = evaluateRisk(settings, { ...quiet, todaysPnL: -0.6 * budget });
+    expect(risk.remainingStatus).toBe("Caution");
+    expect(risk.totalLossStatus).toBe("Caution");
+    expect(risk.flattenNow).toBe(false);
+  });
+
+  it("recommends flattening past 90% of the loss budget", () => {
+    const risk = evaluateRisk(settings, { ...quiet, todaysPnL: -0.5 * budget, unrealizedPnL: -0.45 * budget });
+    expect(risk.remainingStatus).toBe("Danger");
+    expect(risk.totalLossStatus).toBe("Danger");
+    expect(risk.flattenNow).toBe(true);
+    expect(risk.reasons.flatten).toContain("TotalLossLimit");
+  });
+
+  it("does not count profit against the budget", () => {
+    const risk = evaluateRisk(settings, { ...quiet, todaysPnL: 3_000, unrealizedPnL: -0.2 * budget });
+    expect(risk.budget.used).toBeCloseTo(0.2 * budget);
+    expect(risk.budget.profit).toBe(3_000);
+    expect(risk.remainingStatus).toBe("Safe");
+  });
+});
+
+describe("Custom preset", () => {
+  it("starts with no limits set", () => {
+    expectLimits(computeLimits(PRESET_MAP.Custom, EQUITY), {
+      dayLossLimit: 0, totalLossLimit: 0, perSymbolLimit: 0, perTickerExposure: 0, totalExposure: 0, profitLockStart: 0, profitLockDrawdown: 0,
+    });
+  });
+
+  it("stays Safe on losses when no loss limit is set, but still flattens on halted exposure", () => {
+    const losing = evaluateRisk(PRESET_MAP.Custom, { ...quiet, todaysPnL: -50_000 });
+    expect(losing.budget.source).toBeNull();
+    expect([losing.remainingStatus, losing.totalLossStatus]).toEqual(["Safe", "Safe"]);
+    expect(losing.flattenNow).toBe(false);
+
+    const halted = evaluateRisk(PRESET_MAP.Custom, { ...quiet, haltedExposure: 45_000 });
+    expect(halted.haltedStatus).toBe("Danger");
+    expect(halted.flattenNow).toBe(true);
+  });
+
+  it("measures the budget against DayLossLimit once one is set", () => {
+    const settings: RiskSettings = { ...PRESET_MAP.Custom, dailyLossLimit: 0.02, totalLossLimit: 0.05 };
+    expectLimits(computeLimits(settings, EQUITY), {
+      dayLossLimit: -2_000, totalLossLimit: -5_000, perSymbolLimit: 0, perTickerExposure: 0, totalExposure: 0, profitLockStart: 0, profitLockDrawdown: 0,
+    });
+
+    const risk = evaluateRisk(settings, { ...quiet, todaysPnL: -1_900 });
+    expect(risk.budget.source).toBe("DayLossLimit");
+    expect(risk.remainingBudget).toBeCloseTo(100);
+    expect(risk.remainingStatus).toBe("Danger");
+    expect(risk.totalLossStatus).toBe("Safe");
+    expect(risk.flattenNow).toBe(true);
+  });
+
+  it("reads drawdown against prior equity", () => {
+    const risk = evaluateRisk(PRESET_MAP.Custom, { ...quiet, equity: 92_000 });
+    expect(risk.drawdown).toBeCloseTo(-0.08);
+    expect(risk.drawdownStatus).toBe("Caution");
+    expect(evaluateRisk(PRESET_MAP.Custom, { ...quiet, equity: 89_000 }).drawdownStatus).toBe("Danger");
+  });
+
+  it("moves the Caution and Danger lines with the thresholds passed in", () => {
+    const thresholds = { ...DEFAULT_THRESHOLDS, drawdownCaution: 0.1, drawdownDanger: 0.2 };
+    expect(evaluateRisk(PRESET_MAP.Custom, { ...quiet, equity: 92_000 }, thresholds).drawdownStatus).toBe("Safe");
+    expect(evaluateRisk(PRESET_MAP.Custom, { ...quiet, equity: 85_000 }, thresholds).drawdownStatus).toBe("Caution");
+    expect(evaluateRisk(PRESET_MAP.Custom, { ...quiet, equity: 79_000 }, thresholds).drawdownStatus).toBe("Danger");
+  });
+});
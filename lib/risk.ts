@@ -0,0 +1,257 @@
+import { DEFAULT_THRESHOLDS, type RiskSettings, type StatusThresholds, dollars, pct } from "@/lib/calc";
+import { scaleLimits } from "@/lib/tiers";
+
+export type Status = "Safe" | "Caution" | "Danger";
+
+export interface AccountInputs {
+  equity: number;
+  priorEquity: number;
+  todaysPnL: number;
+  haltedExposure: number;
+  unrealizedPnL?: number;        // Sum of open positions, from the position ledger
+  tradeCount?: number;           // Trades executed today
+  pnlHighWater?: number;         // Intraday peak of realized + unrealized P&L
+}
+
+// Dollar values written to RiskControl.cfg. Loss limits are negative, as DAS expects.
+export interface RiskLimits {
+  dayLossLimit: number;          // DayLossLimit
+  totalLossLimit: number;        // TotalLossLimit
+  perSymbolLimit: number;        // PosUnrealLossLimit
+  perTickerExposure: number;     // PosMktValueLimit
+  totalExposure: number;         // OpenPosValueLimit
+  profitLockStart: number;       // ProfitLockStart
+  profitLockDrawdown: number;    // ProfitLockDrawdown% (fraction)
+}
+
+/**
+ * Today's loss budget. Only losses count against it: realized and unrealized
+ * are tracked separately, and gains on either side are reported as profit
+ * without using (or adding to) the budget.
+ */
+export interface LossBudget {
+  source: "DayLossLimit" | "TotalLossLimit" | null; // Where `limit` comes from; null when neither is set
+  limit: number;                 // Dollars of loss allowed, positive
+  realizedLoss: number;          // Net realized loss today, 0 on a realized gain
+  unrealizedLoss: number;        // Net open loss across positions, 0 when they are up
+  profit: number;                // Realized plus unrealized gains, not counted
+  used: number;                  // realizedLoss + unrealizedLoss
+  usedPct: number;               // used / limit; 0 when no limit is set
+  remaining: number;             // limit - used; negative once the limit is breached
+}
+
+export interface ProfitLockState {
+  armed: boolean;                // Peak P&L has reached ProfitLockStart
+  triggered: boolean;            // P&L has fallen back to the giveback floor
+  peak: number;
+  floor: number;                 // P&L at which DAS stops trading, once armed
+  room: number;                  // Dollars left before the floor
+  status: Status;
+}
+
+export interface RiskReasons {
+  drawdown: string;
+  remaining: string;
+  halted: string;
+  totalLoss: string;
+  trades: string;
+  profitLock: string;
+  flatten: string;
+}
+
+export interface RiskEvaluation {
+  limits: RiskLimits;
+  thresholds: StatusThresholds;
+
+  drawdown: number;              // Equity vs prior equity, as a fraction
+  drawdownStatus: Status;
+
+  budget: LossBudget;
+  remainingBudget: number;       // Dollars of loss budget left, i.e. budget.remaining
+  remainingStatus: Status;
+
+  totalLossUsed: number;         // Net P&L, realized plus unrealized (negative is a loss)
+  totalLossRemaining: number;    // Dollars left before TotalLossLimit
+  totalLossStatus: Status;
+
+  haltedPct: number;
+  haltedStatus: Status;
+
+  tradesStatus: Status;          // vs MaxDailyTrades
+
+  profitLock: ProfitLockState;
+
+  flattenNow: boolean;
+  reasons: RiskReasons;
+}
+
+const STATUS_RANK: Record<Status, number> = { Safe: 0, Caution: 1, Danger: 2 };
+
+export function worstStatus(...statuses: Status[]): Status {
+  return statuses.reduce<Status>((worst, s) => STATUS_RANK[s] > STATUS_RANK[worst] ? s : worst, "Safe");
+}
+
+// Equity tiers and dollar clamps are applied here, so every consumer of the limits sees the same dollars
+export function computeLimits(settings: RiskSettings, equity: number): RiskLimits {
+  const scaled = scaleLimits(settings, equity);
+  return {
+    dayLossLimit: -scaled.dailyLossLimit.amount,
+    totalLossLimit: -scaled.totalLossLimit.amount,
+    perSymbolLimit: -scaled.perSymbolLossLimit.amount,
+    perTickerExposure: scaled.perSymbolExposureLimit.amount,
+    totalExposure: scaled.totalExposureLimit.amount,
+    profitLockStart: scaled.profitLockStart.amount,
+    profitLockDrawdown: settings.profitLockDrawdown,
+  };
+}
+
+/**
+ * Losses counted against today's budget. DayLossLimit sets the budget; the
+ * built-in modes leave it at 0, and then TotalLossLimit stands in so a mode
+ * without a daily limit is still measured against something.
+ */
+export function lossBudget(limits: RiskLimits, realizedPnL: number, unrealizedPnL: number): LossBudget {
+  const source = limits.dayLossLimit < 0 ? "DayLossLimit" : limits.totalLossLimit < 0 ? "TotalLossLimit" : null;
+  const limit = source === "DayLossLimit" ? -limits.dayLossLimit : source === "TotalLossLimit" ? -limits.totalLossLimit : 0;
+  const realizedLoss = Math.max(0, -realizedPnL);
+  const unrealizedLoss = Math.max(0, -unrealizedPnL);
+  const used = realizedLoss + unrealizedLoss;
+  return {
+    source,
+    limit,
+    realizedLoss,
+    unrealizedLoss,
+    profit: Math.max(0, realizedPnL) + Math.max(0, unrealizedPnL),
+    used,
+    usedPct: limit > 0 ? used / limit : 0,
+    remaining: limit - used,
+  };
+}
+
+// Threshold as written in reasons: whole percents without decimals, e.g. "5%" or "3.5%"
+function band(n: number): string {
+  return pct(n, Number.isInteger(Math.round(n * 1000) / 10) ? 0 : 1);
+}
+
+// Names the band a reading fell into, e.g. "Caution triggered at > 50% (Danger > 80%)"
+function bandReason(status: Status, caution: string, danger: string): string {
+  return status === "Danger" ? `Danger triggered at ${danger}`
+       : status === "Caution" ? `Caution triggered at ${caution} (Danger ${danger})`
+       : `Caution ${caution}, Danger ${danger}`;
+}
+
+// e.g. "$600 (60%) of $1,000 daily loss budget used · realized $400, unrealized $200 · Caution triggered at > 50% (Danger > 80%)"
+function budgetReason(budget: LossBudget, status: Status, t: StatusThresholds): string {
+  if (budget.source === null) return `${dollars(budget.used)} lost today (no DayLossLimit or TotalLossLimit set)`;
+  const of = budget.source === "DayLossLimit" ? "daily loss budget" : "TotalLossLimit budget (no DayLossLimit set)";
+  const split = `realized ${dollars(budget.realizedLoss)}, unrealized ${dollars(budget.unrealizedLoss)}`;
+  const profit = budget.profit > 0 ? `, ${dollars(budget.profit)} profit not counted` : "";
+  return `${dollars(budget.used)} (${pct(budget.usedPct, 0)}) of ${dollars(budget.limit)} ${of} used · ${split}${profit} · ${bandReason(status, `> ${band(t.lossCaution)}`, `> ${band(t.lossDanger)}`)}`;
+}
+
+/**
+ * Evaluate an account against a set of risk settings.
+ *
+ * Pure function: everything the dashboard shows in the Status section is
+ * derived from here, so it can be reused outside the React page.
+ */
+export function evaluateRisk(settings: RiskSettings, inputs: AccountInputs, thresholds: StatusThresholds = DEFAULT_THRESHOLDS): RiskEvaluation {
+  const { equity, priorEquity, todaysPnL, haltedExposure, unrealizedPnL = 0, tradeCount = 0, pnlHighWater = 0 } = inputs;
+  const t = thresholds;
+  const limits = computeLimits(settings, equity);
+
+  const drawdown = priorEquity > 0 ? (equity / priorEquity - 1) : 0;
+  const drawdownStatus: Status = drawdown <= -t.drawdownDanger ? "Danger" : drawdown <= -t.drawdownCaution ? "Caution" : "Safe";
+
+  // Today's P&L is realized; open positions supply the unrealized side
+  const budget = lossBudget(limits, todaysPnL, unrealizedPnL);
+  const remainingStatus: Status = budget.limit <= 0 ? "Safe"
+                                : budget.usedPct > t.lossDanger ? "Danger"
+                                : budget.usedPct > t.lossCaution ? "Caution"
+                                : "Safe";
+
+  // Total loss is realized plus unrealized across open positions; only a net loss counts
+  const totalLossUsed = todaysPnL + unrealizedPnL;
+  const totalLoss = Math.max(0, -totalLossUsed);
+  const totalLossCap = Math.abs(limits.totalLossLimit);
+  const totalLossRemaining = totalLossCap - totalLoss;
+  const totalLossStatus: Status = !(totalLossCap > 0) ? "Safe"
+                                : totalLoss > totalLossCap * t.lossDanger ? "Danger"
+                                : totalLoss > totalLossCap * t.lossCaution ? "Caution"
+                                : "Safe";
+
+  const haltedPct = equity > 0 ? haltedExposure / equity : 0;
+  const haltedStatus: Status = haltedPct > t.haltedDanger ? "Danger" : haltedPct > t.haltedCaution ? "Caution" : "Safe";
+
+  // MaxDailyTrades of 0 means no limit is configured
+  const maxTrades = settings.maxDailyTrades;
+  const tradesStatus: Status = !(maxTrades > 0) ? "Safe"
+                             : tradeCount >= maxTrades ? "Danger"
+                             : tradeCount > 0.8 * maxTrades ? "Caution"
+                             : "Safe";
+
+  const profitLock = evaluateProfitLock(limits, todaysPnL + unrealizedPnL, pnlHighWater);
+
+  const lossTrigger = budget.limit > 0 && budget.usedPct > t.flattenLoss;
+  const haltedTrigger = haltedPct > t.flattenHalted;
+  const flattenNow = lossTrigger || haltedTrigger;
+
+  const reasons: RiskReasons = {
+    drawdown: `${pct(drawdown, 1)} vs prior equity · ${bandReason(drawdownStatus, `≤ -${band(t.drawdownCaution)}`, `≤ -${band(t.drawdownDanger)}`)}`,
+    remaining: budgetReason(budget, remainingStatus, t),
+    halted: `${pct(haltedPct, 1)} of equity halted · ${bandReason(haltedStatus, `> ${band(t.haltedCaution)}`, `> ${band(t.haltedDanger)}`)}`,
+    totalLoss: totalLossCap > 0
+      ? `${dollars(totalLoss)} of ${dollars(totalLossCap)} total loss used · ${bandReason(totalLossStatus, `> ${band(t.lossCaution)}`, `> ${band(t.lossDanger)}`)}`
+      : `Net P&L ${dollars(totalLossUsed)} (no TotalLossLimit set)`,
+    trades: maxTrades > 0
+      ? `${tradeCount} of ${maxTrades} daily trades used (Caution > 80%, Danger at limit)`
+      : `${tradeCount} trades today (no MaxDailyTrades set)`,
+    profitLock: !(limits.profitLockStart > 0) ? "No ProfitLockStart set"
+              : !profitLock.armed ? `Not armed: peak ${dollars(profitLock.peak)} below ${dollars(limits.profitLockStart)} start`
+              : profitLock.triggered ? `Triggered: P&L at or below the ${dollars(profitLock.floor)} floor`
+              : `Armed: ${dollars(profitLock.room)} above the ${dollars(profitLock.floor)} floor (Caution ≤ 50% of giveback left, Danger ≤ 20%)`,
+    flatten: lossTrigger && haltedTrigger ? `Loss budget above ${band(t.flattenLoss)} used and halted exposure above ${band(t.flattenHalted)}`
+           : lossTrigger ? `Loss budget above ${band(t.flattenLoss)} used (${budget.source})`
+           : haltedTrigger ? `Halted exposure above ${band(t.flattenHalted)} of equity`
+           : `Within risk limits (flatten at > ${band(t.flattenLoss)} of loss budget or > ${band(t.flattenHalted)} halted)`,
+  };
+
+  return {
+    limits,
+    thresholds,
+    drawdown,
+    drawdownStatus,
+    budget,
+    remainingBudget: budget.remaining,
+    remainingStatus,
+    totalLossUsed,
+    totalLossRemaining,
+    totalLossStatus,
+    haltedPct,
+    haltedStatus,
+    tradesStatus,
+    profitLock,
+    flattenNow,
+    reasons,
+  };
+}
+
+/**
+ * DAS arms the profit lock once P&L reaches ProfitLockStart, then stops trading
+ * if P&L gives back ProfitLockDrawdown% of the peak.
+ */
+export function evaluateProfitLock(limits: RiskLimits, currentPnL: number, highWater: number): ProfitLockState {
+  const peak = Math.max(highWater, currentPnL);
+  const armed = limits.profitLockStart > 0 && peak >= limits.profitLockStart;
+  const giveback = peak * limits.profitLockDrawdown;
+  const floor = armed ? peak - giveback : 0;
+  const room = armed ? currentPnL - floor : 0;
+  const triggered = armed && currentPnL <= floor;
+
+  const status: Status = !armed ? "Safe"
+                       : triggered || room <= 0.2 * giveback ? "Danger"
+                       : room <= 0.5 * giveback ? "Caution"
+                       : "Safe";
+
+  return { armed, triggered, peak, floor, room, status };
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { GET, POST } from "@/app/api/cfg/route";
+import { PRESET_MAP } from "@/lib/calc";
+import { parseRoster, readCfgSpec } from "@/lib/roster";
+
+describe("readCfgSpec", () => {
+  it("coerces text fields to the types RiskSettings uses", () => {
+    const { spec, errors } = readCfgSpec({ account: " Main ", equity: "55000", totalLossLimit: "0.05", autoStopLoss: "yes", maxPositions: "4" }, "request");
+    expect(errors).toEqual([]);
+    expect(spec).toMatchObject({ account: "Main", mode: "Custom", equity: 55_000 });
+    expect(spec!.settings).toEqual({ ...PRESET_MAP.Custom, totalLossLimit: 0.05, autoStopLoss: true, maxPositions: 4 });
+  });
+
+  it("names fields whose text does not fit their type", () => {
+    const { spec, errors } = readCfgSpec({ equity: "lots", mode: "Custom", maxPositions: "four", autoStopLoss: "maybe" }, "request");
+    expect(spec).toBeNull();
+    expect(errors).toEqual([
+      "request: autoStopLoss should be a boolean",
+      "request: maxPositions should be a number",
+      "request: equity must be a number greater than 0",
+    ]);
+  });
+
+  it("takes a built-in mode as is, and refuses settings alongside it", () => {
+    expect(readCfgSpec({ mode: "standard", equity: 55_000 }, "request").spec?.settings).toEqual(PRESET_MAP.Standard);
+    expect(readCfgSpec({ mode: "Standard", equity: 55_000, settings: { totalLossLimit: 0.2 } }, "request").errors)
+      .toEqual(["request: settings can only be given with mode Custom"]);
+    expect(readCfgSpec({ equity: 55_000 }, "request").errors).toEqual(["request: mode or settings is required"]);
+    expect(readCfgSpec({ mode: "YOLO", equity: 55_000 }, "request").errors[0]).toMatch(/^request: mode "YOLO" is not one of/);
+  });
+
+  it("rejects settings that fail validation", () => {
+    const { spec, errors } = readCfgSpec({ equity: 55_000, settings: { totalLossLimit: 0.05, perSymbolLossLimit: 0.06 } }, "request");
+    expect(spec).toBeNull();
+    expect(errors).toEqual(["request: Per-symbol loss 6.0% exceeds total loss 5.0%"]);
+  });
+});
+
+describe("parseRoster", () => {
+  it("reads a CSV roster, matching setting columns case-insensitively", () => {
+    const { specs, errors } = parseRoster("account,mode,equity,TOTALLOSSLIMIT\nMain,Standard,55000,\nScalper,,30000,0.04\n", "csv");
+    expect(errors).toEqual([]);
+    expect(specs.map(s => [s.account, s.mode, s.equity, s.settings.totalLossLimit])).toEqual([
+      ["Main", "Standard", 55_000, PRESET_MAP.Standard.totalLossLimit],
+      ["Scalper", "Custom", 30_000, 0.04],
+    ]);
+  });
+
+  it("leaves out accounts without a name or whose file name clashes, and keeps the rest", () => {
+    const roster = JSON.stringify({ accounts: [
+      { account: "Main", mode: "Standard", equity: 55_000 },
+      { account: "MAIN", mode: "Aggressive", equity: 80_000 },
+      { mode: "Standard", equity: 10_000 },
+    ] });
+    const { specs, errors } = parseRoster(roster, "json");
+    expect(specs.map(s => s.account)).toEqual(["Main"]);
+    expect(errors).toEqual([
+      'accounts[1]: "MAIN" writes the same file as "Main" (RiskControl_MAIN.cfg)',
+      "accounts[2]: account is required",
+    ]);
+  });
+
+  it("rejects JSON that is not a list of accounts", () => {
+    expect(parseRoster("{", "json").errors).toEqual(["Roster is not valid JSON"]);
+    expect(parseRoster('{"main":{}}', "json").errors).toEqual(["JSON roster must be a list of accounts, or an object with an `accounts` list"]);
+  });
+});
+
+describe("/api/cfg", () => {
+  it("serves the cfg for a query string as a download", async () => {
+    const response = GET(new Request("http://localhost/api/cfg?account=Main&mode=Standard&equity=55000"));
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toBe('attachment; filename="RiskControl_Main.cfg"');
+    expect(await response.text()).toContain("# Mode: Standard");
+  });
+
+  it("returns 400 with the problems for a mode/settings conflict", async () => {
+    const response = await POST(new Request("http://localhost/api/cfg", {
+      method: "POST",
+      body: JSON.stringify({ mode: "Aggressive", equity: 55_000, settings: { maxPositions: 3 } }),
+    }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ ok: false, errors: ["request: settings can only be given with mode Custom"] });
+  });
+});
@@ -0,0 +1,134 @@
+import { PRESET_MAP, type Mode, type RiskSettings } from "@/lib/calc";
+import { cfgFileName, type CfgSpec } from "@/lib/cfg";
+import { parseCsv } from "@/lib/das-csv";
+import { type FlatField } from "@/lib/diff";
+import { readDollarClamps, readEquityTiers } from "@/lib/tiers";
+import { isRecord } from "@/lib/utils";
+import { validateSettings } from "@/lib/validation";
+
+const MODES: Mode[] = ["Conservative", "Standard", "Aggressive", "Custom"];
+const SETTING_KEYS = (Object.keys(PRESET_MAP.Custom) as (keyof RiskSettings)[]).filter((k): k is FlatField => typeof PRESET_MAP.Custom[k] !== "object");
+
+export interface CfgSpecRead {
+  spec: CfgSpec | null;
+  errors: string[];
+}
+
+export interface RosterRead {
+  specs: CfgSpec[];
+  errors: string[];
+}
+
+// Query strings and CSV cells arrive as text; convert to the type the template field has
+function coerce(value: unknown, template: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const text = value.trim();
+  if (typeof template === "number") return text === "" ? NaN : Number(text);
+  if (typeof template === "boolean") return /^(1|true|yes|on)$/i.test(text) ? true : /^(0|false|no|off)$/i.test(text) ? false : text;
+  return text;
+}
+
+/**
+ * One account's cfg request: `equity`, and either a built-in `mode` or Custom
+ * settings. Settings may be nested under `settings` (JSON) or given as
+ * top-level fields named like RiskSettings (query strings, CSV columns);
+ * fields left out take the Custom defaults. Values are fractions, as in
+ * RiskSettings, e.g. `totalLossLimit: 0.1` for 10%. `equityTiers` and
+ * `dollarClamps` can only be given as JSON.
+ */
+export function readCfgSpec(raw: Record<string, unknown>, label: string): CfgSpecRead {
+  const errors: string[] = [];
+  const nested = raw.settings;
+  if (nested !== undefined && !isRecord(nested)) errors.push(`${label}: settings must be an object`);
+  const source: Record<string, unknown> = isRecord(nested) ? nested : raw;
+
+  const overrides: Partial<RiskSettings> = {};
+  for (const key of SETTING_KEYS) {
+    if (source[key] === undefined || source[key] === "") continue;
+    const value = coerce(source[key], PRESET_MAP.Custom[key]);
+    if (typeof value !== typeof PRESET_MAP.Custom[key] || (typeof value === "number" && !Number.isFinite(value))) {
+      errors.push(`${label}: ${key} should be a ${typeof PRESET_MAP.Custom[key]}`);
+    } else {
+      (overrides as Record<string, unknown>)[key] = value;
+    }
+  }
+  // Any bad tier or clamp rejects the account here, so the readers' repair notes are dropped from the messages
+  const scaling: string[] = [];
+  if (source.equityTiers !== undefined) overrides.equityTiers = readEquityTiers(source.equityTiers, `${label}: equityTiers`, scaling);
+  if (source.dollarClamps !== undefined) overrides.dollarClamps = readDollarClamps(source.dollarClamps, `${label}: dollarClamps`, scaling);
+  errors.push(...scaling.map(issue => issue.replace(/; (dropped|ignored|using 0)$/, "")));
+  const hasOverrides = Object.keys(overrides).length > 0;
+
+  const modeText = typeof raw.mode === "string" ? raw.mode.trim() : "";
+  const mode = MODES.find(m => m.toLowerCase() === modeText.toLowerCase()) ?? (modeText === "" && hasOverrides ? "Custom" : undefined);
+  if (!mode) errors.push(modeText ? `${label}: mode "${modeText}" is not one of ${MODES.join(", ")}` : `${label}: mode or settings is required`);
+  else if (mode !== "Custom" && hasOverrides) errors.push(`${label}: settings can only be given with mode Custom`);
+
+  const equity = Number(coerce(raw.equity, 0));
+  if (raw.equity === undefined || raw.equity === "") errors.push(`${label}: equity is required`);
+  else if (!(equity > 0)) errors.push(`${label}: equity must be a number greater than 0`);
+
+  const account = typeof raw.account === "string" ? raw.account.trim() : "";
+  const preset = typeof raw.preset === "string" && raw.preset.trim() !== "" ? raw.preset.trim() : undefined;
+  if (errors.length > 0 || !mode) return { spec: null, errors };
+
+  const settings = mode === "Custom" ? { ...PRESET_MAP.Custom, ...overrides } : PRESET_MAP[mode];
+  const invalid = validateSettings(settings, equity).issues.filter(i => i.severity === "error");
+  if (invalid.length > 0) return { spec: null, errors: invalid.map(i => `${label}: ${i.message}`) };
+
+  return { spec: { account, mode, settings, equity, ...(preset ? { preset } : {}) }, errors };
+}
+
+// CSV roster: a header row naming the columns (account, mode, equity, preset, RiskSettings fields), one account per row
+function csvRecords(text: string): { label: string; raw: Record<string, unknown> }[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.cells.map(c => {
+    const name = c.trim();
+    return SETTING_KEYS.find(k => k.toLowerCase() === name.toLowerCase()) ?? name.toLowerCase();
+  });
+  return rows.map(row => ({
+    label: `line ${row.line}`,
+    raw: Object.fromEntries(keys.map((k, i) => [k, row.cells[i] ?? ""]).filter(([, v]) => v.trim() !== "")),
+  }));
+}
+
+function jsonRecords(text: string): { label: string; raw: Record<string, unknown> }[] | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return "Roster is not valid JSON";
+  }
+  const list = Array.isArray(parsed) ? parsed : isRecord(parsed) && Array.isArray(parsed.accounts) ? parsed.accounts : null;
+  if (!list) return "JSON roster must be a list of accounts, or an object with an `accounts` list";
+  return list.map((raw, i) => ({ label: `accounts[${i}]`, raw: isRecord(raw) ? raw : {} }));
+}
+
+/**
+ * Read a roster of accounts for bulk cfg generation. Every account needs a
+ * name, and names must give distinct file names; bad rows are reported and
+ * left out so the rest can still be written.
+ */
+export function parseRoster(text: string, format: "json" | "csv"): RosterRead {
+  const records = format === "json" ? jsonRecords(text) : csvRecords(text);
+  if (typeof records === "string") return { specs: [], errors: [records] };
+
+  const specs: CfgSpec[] = [];
+  const errors: string[] = [];
+  const files = new Map<string, string>();
+  for (const { label, raw } of records) {
+    const { spec, errors: rowErrors } = readCfgSpec(raw, label);
+    if (spec && !spec.account) rowErrors.push(`${label}: account is required`);
+    if (spec && spec.account) {
+      const file = cfgFileName(spec.account);
+      const key = file.toLowerCase();  // Case-insensitive file systems would overwrite one with the other
+      const clash = files.get(key);
+      if (clash) rowErrors.push(`${label}: "${spec.account}" writes the same file as "${clash}" (${file})`);
+      else files.set(key, spec.account);
+    }
+    if (rowErrors.length > 0 || !spec) errors.push(...rowErrors);
+    else specs.push(spec);
+  }
+  return { specs, errors };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { defaultProfile, type AccountProfile } from "@/lib/profiles";
+import { scenarioFromProfile, sweepPnL } from "@/lib/scenario";
+
+// Standard at $100k: TotalLossLimit is -$15,000 and, with no DayLossLimit, also the loss budget
+const profile: AccountProfile = { ...defaultProfile("Main"), mode: "Standard", equity: 100_000, priorEquity: 100_000 };
+
+describe("sweepPnL", () => {
+  const sweep = sweepPnL(profile, scenarioFromProfile(profile), [], 10);
+
+  it("steps from flat down to the start-of-day TotalLossLimit", () => {
+    expect(sweep.points).toHaveLength(11);
+    expect(sweep.points[0]).toMatchObject({ pnl: 0, remainingBudget: 15_000, totalLossRemaining: 15_000 });
+    expect(Object.is(sweep.points[0].pnl, 0)).toBe(true);
+    expect(Object.values(sweep.points[0].statuses).every(s => s === "Safe")).toBe(true);
+    expect(sweep.points[1].pnl).toBe(-1_500);
+    expect(sweep.points[10].pnl).toBe(-15_000);
+  });
+
+  it("breaches the limit before the last step, since limits shrink with equity", () => {
+    // At -$13,500 equity is $86,500, so the 15% limit is $12,975
+    const breached = sweep.points.findIndex(p => p.totalLossRemaining < 0);
+    expect(sweep.points[breached - 1]).toMatchObject({ pnl: -12_000, totalLossRemaining: 1_200 });
+    expect(sweep.points[breached]).toMatchObject({ pnl: -13_500, totalLossRemaining: -525 });
+    expect(sweep.points[breached].statuses).toMatchObject({ totalLoss: "Danger", flatten: "Danger" });
+  });
+
+  it("lists each status flip at the first step past its threshold", () => {
+    expect(sweep.flips.map(f => [f.check, f.pnl, f.from, f.to])).toEqual([
+      ["drawdown", -6_000, "Safe", "Caution"],
+      ["remaining", -7_500, "Safe", "Caution"],
+      ["totalLoss", -7_500, "Safe", "Caution"],
+      ["drawdown", -10_500, "Caution", "Danger"],
+      ["remaining", -12_000, "Caution", "Danger"],
+      ["totalLoss", -12_000, "Caution", "Danger"],
+      ["flatten", -12_000, "Safe", "Danger"],
+    ]);
+  });
+
+  it("is empty when no TotalLossLimit is set", () => {
+    expect(sweepPnL({ ...profile, mode: "Custom" }, scenarioFromProfile(profile))).toEqual({ points: [], flips: [] });
+  });
+});
@@ -0,0 +1,105 @@
+import { type NamedPreset } from "@/lib/presets";
+import { evaluateProfile, type AccountProfile, type ProfileEvaluation } from "@/lib/profiles";
+import { type Status } from "@/lib/risk";
+
+// Hypothetical inputs for the what-if sandbox; never written back to the profile
+export interface Scenario {
+  equity: number;
+  todaysPnL: number;
+  haltedExposure: number;
+  priceMove: number;             // Fraction applied to every open position's last price, e.g. -0.02
+}
+
+export type SweepCheck = "drawdown" | "remaining" | "halted" | "totalLoss" | "flatten";
+
+export const SWEEP_CHECKS: { check: SweepCheck; label: string }[] = [
+  { check: "drawdown", label: "Drawdown" },
+  { check: "remaining", label: "Daily Loss Budget" },
+  { check: "halted", label: "Halted Exposure" },
+  { check: "totalLoss", label: "Total Loss" },
+  { check: "flatten", label: "Flatten Now" },
+];
+
+export interface SweepPoint {
+  pnl: number;
+  remainingBudget: number;
+  totalLossRemaining: number;
+  statuses: Record<SweepCheck, Status>;
+}
+
+export interface StatusFlip {
+  check: SweepCheck;
+  label: string;
+  pnl: number;                   // First swept P&L at the new status
+  from: Status;
+  to: Status;
+}
+
+export interface PnLSweep {
+  points: SweepPoint[];
+  flips: StatusFlip[];
+}
+
+export function scenarioFromProfile(profile: AccountProfile): Scenario {
+  return { equity: profile.equity, todaysPnL: profile.todaysPnL, haltedExposure: profile.haltedExposure, priceMove: 0 };
+}
+
+// A copy of the profile with the scenario applied
+export function applyScenario(profile: AccountProfile, scenario: Scenario): AccountProfile {
+  return {
+    ...profile,
+    equity: scenario.equity,
+    todaysPnL: scenario.todaysPnL,
+    haltedExposure: scenario.haltedExposure,
+    positions: profile.positions.map(p => ({ ...p, lastPrice: p.lastPrice * (1 + scenario.priceMove) })),
+  };
+}
+
+export function evaluateScenario(profile: AccountProfile, scenario: Scenario, presets: NamedPreset[] = []): ProfileEvaluation {
+  return evaluateProfile(applyScenario(profile, scenario), presets);
+}
+
+function statusesOf({ risk }: ProfileEvaluation): Record<SweepCheck, Status> {
+  return {
+    drawdown: risk.drawdownStatus,
+    remaining: risk.remainingStatus,
+    halted: risk.haltedStatus,
+    totalLoss: risk.totalLossStatus,
+    flatten: risk.flattenNow ? "Danger" : "Safe",
+  };
+}
+
+/**
+ * Step realized P&L from 0 down to the total loss limit and record every
+ * status along the way. Equity moves with P&L from the scenario's start-of-day
+ * equity, so drawdown flips show up too. Empty when no TotalLossLimit is set.
+ */
+export function sweepPnL(profile: AccountProfile, scenario: Scenario, presets: NamedPreset[] = [], steps = 40): PnLSweep {
+  const floor = evaluateScenario(profile, scenario, presets).risk.limits.totalLossLimit;
+  if (!(floor < 0) || steps < 1) return { points: [], flips: [] };
+
+  const startEquity = scenario.equity - scenario.todaysPnL;
+  const points: SweepPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const pnl = i === 0 ? 0 : (floor * i) / steps;  // Not -0, which formats as "-$0"
+    const evaluation = evaluateScenario(profile, { ...scenario, todaysPnL: pnl, equity: startEquity + pnl }, presets);
+    points.push({
+      pnl,
+      remainingBudget: evaluation.risk.remainingBudget,
+      totalLossRemaining: evaluation.risk.totalLossRemaining,
+      statuses: statusesOf(evaluation),
+    });
+  }
+
+  const flips: StatusFlip[] = [];
+  for (const { check, label } of SWEEP_CHECKS) {
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1].statuses[check];
+      const to = points[i].statuses[check];
+      if (from !== to) flips.push({ check, label, pnl: points[i].pnl, from, to });
+    }
+  }
+  flips.sort((a, b) => b.pnl - a.pnl);
+
+  return { points, flips };
+}
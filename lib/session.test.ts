@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_HOLIDAYS, evaluateSession, uncoveredYears } from "@/lib/session";
+
+describe("holiday calendar", () => {
+  it("covers the coming year", () => {
+    expect(uncoveredYears(DEFAULT_HOLIDAYS, "2026-11-20")).toEqual([]);
+    // Good Friday 2027, noon ET
+    const session = evaluateSession(new Date("2027-03-26T16:00:00Z"), "15:30");
+    expect(session.isTradingDay).toBe(false);
+    expect(session.holiday?.name).toBe("Good Friday");
+  });
+
+  it("reports years with no entries", () => {
+    const only2026 = DEFAULT_HOLIDAYS.filter(h => h.date.startsWith("2026-"));
+    expect(uncoveredYears(only2026, "2026-10-19")).toEqual([]);
+    expect(uncoveredYears(only2026, "2026-11-02")).toEqual([2027]);
+    expect(uncoveredYears([], "2027-02-01")).toEqual([2027]);
+  });
+});
+
+// Instants are UTC; 2026-03-10 is a Tuesday on daylight time, so ET = UTC-4
+const at = (iso: string, stopTime = "15:45") => evaluateSession(new Date(iso), stopTime);
+
+describe("evaluateSession", () => {
+  it("counts down to StopTime", () => {
+    const session = at("2026-03-10T19:00:00Z");
+    expect(session.et.time).toBe("15:00:00");
+    expect(session.cutoff).toBe("15:45");
+    expect(session.secondsToCutoff).toBe(45 * 60);
+    expect(session.stopStatus).toBe("Safe");
+    expect(session.reason).toBe("0:45:00 until the 15:45 ET cutoff (Caution ≤ 30m, Danger ≤ 10m)");
+  });
+
+  it("turns Caution 30 minutes out and Danger 10 minutes out", () => {
+    expect(at("2026-03-10T19:14:59Z").stopStatus).toBe("Safe");
+    expect(at("2026-03-10T19:15:00Z").stopStatus).toBe("Caution");
+    expect(at("2026-03-10T19:34:59Z").stopStatus).toBe("Caution");
+    expect(at("2026-03-10T19:35:00Z").stopStatus).toBe("Danger");
+  });
+
+  it("stays Danger past the cutoff only while the regular session is open", () => {
+    const past = at("2026-03-10T19:50:00Z");
+    expect(past.secondsToCutoff).toBe(-5 * 60);
+    expect([past.phase, past.stopStatus, past.reason]).toEqual(["regular", "Danger", "Past the 15:45 ET cutoff"]);
+    expect(at("2026-03-10T20:30:00Z").stopStatus).toBe("Safe");
+  });
+
+  it("walks through the session phases", () => {
+    const phases: [string, string][] = [
+      ["2026-03-10T07:00:00Z", "closed"],   // 03:00 ET
+      ["2026-03-10T08:00:00Z", "pre"],      // 04:00
+      ["2026-03-10T13:30:00Z", "regular"],  // 09:30
+      ["2026-03-10T20:00:00Z", "after"],    // 16:00
+      ["2026-03-11T00:00:00Z", "closed"],   // 20:00
+    ];
+    for (const [iso, phase] of phases) expect(at(iso).phase, iso).toBe(phase);
+  });
+
+  it("is closed all weekend", () => {
+    const session = at("2026-03-14T15:00:00Z");
+    expect([session.isTradingDay, session.phase, session.cutoff, session.stopStatus]).toEqual([false, "closed", null, "Safe"]);
+    expect(session.reason).toBe("Market closed for the weekend");
+  });
+
+  it("moves the cutoff and extended hours up on an early-close day", () => {
+    // Day after Thanksgiving, on standard time (ET = UTC-5), closing at 13:00
+    const noon = at("2026-11-27T17:30:00Z");
+    expect([noon.et.time, noon.close, noon.cutoff, noon.secondsToCutoff]).toEqual(["12:30:00", "13:00", "13:00", 30 * 60]);
+    expect(noon.stopStatus).toBe("Caution");
+    expect(noon.reason).toBe("Within 30 minutes of the 13:00 ET cutoff · early close for Day after Thanksgiving");
+    expect(at("2026-11-27T18:30:00Z").phase).toBe("after");
+    expect(at("2026-11-27T22:30:00Z").phase).toBe("closed");
+  });
+
+  it("keeps ET wall-clock times across the daylight saving change", () => {
+    // 2026-03-08: Friday before is UTC-5, Monday after is UTC-4
+    const before = at("2026-03-06T19:00:00Z");
+    const after = at("2026-03-09T18:00:00Z");
+    expect([before.et.time, after.et.time]).toEqual(["14:00:00", "14:00:00"]);
+    expect(before.secondsToCutoff).toBe(after.secondsToCutoff);
+    expect(at("2026-03-09T19:00:00Z").et.time).toBe("15:00:00");
+  });
+});
@@ -0,0 +1,184 @@
+import { type Status } from "@/lib/risk";
+
+export type MarketPhase = "closed" | "pre" | "regular" | "after";
+
+export interface MarketHoliday {
+  date: string;                  // YYYY-MM-DD in Eastern Time
+  name: string;
+  earlyClose?: string;           // HH:MM ET; full-day closure when absent
+}
+
+export interface EasternTime {
+  date: string;                  // YYYY-MM-DD
+  time: string;                  // HH:MM:SS
+  weekday: number;               // 0 = Sunday
+  seconds: number;               // Seconds since ET midnight
+}
+
+export interface SessionState {
+  et: EasternTime;
+  phase: MarketPhase;
+  holiday: MarketHoliday | null;
+  isTradingDay: boolean;
+  close: string;                 // Regular close today, HH:MM ET
+  cutoff: string | null;         // Effective StopTime: the earlier of StopTime and today's close
+  secondsToCutoff: number | null; // Negative once the cutoff has passed
+  stopStatus: Status;
+  reason: string;
+}
+
+export const MARKET_TZ = "America/New_York";
+
+const PRE_OPEN = "04:00";
+const OPEN = "09:30";
+const CLOSE = "16:00";
+const AFTER_CLOSE = "20:00";
+
+// Minutes before the cutoff at which the stop-time chip turns Caution / Danger
+const CAUTION_MINUTES = 30;
+const DANGER_MINUTES = 10;
+
+// NYSE full closures and early closes. Editable in the dashboard.
+export const DEFAULT_HOLIDAYS: MarketHoliday[] = [
+  { date: "2025-01-01", name: "New Year's Day" },
+  { date: "2025-01-20", name: "Martin Luther King Jr. Day" },
+  { date: "2025-02-17", name: "Washington's Birthday" },
+  { date: "2025-04-18", name: "Good Friday" },
+  { date: "2025-05-26", name: "Memorial Day" },
+  { date: "2025-06-19", name: "Juneteenth" },
+  { date: "2025-07-03", name: "Independence Day (eve)", earlyClose: "13:00" },
+  { date: "2025-07-04", name: "Independence Day" },
+  { date: "2025-09-01", name: "Labor Day" },
+  { date: "2025-11-27", name: "Thanksgiving Day" },
+  { date: "2025-11-28", name: "Day after Thanksgiving", earlyClose: "13:00" },
+  { date: "2025-12-24", name: "Christmas Eve", earlyClose: "13:00" },
+  { date: "2025-12-25", name: "Christmas Day" },
+  { date: "2026-01-01", name: "New Year's Day" },
+  { date: "2026-01-19", name: "Martin Luther King Jr. Day" },
+  { date: "2026-02-16", name: "Washington's Birthday" },
+  { date: "2026-04-03", name: "Good Friday" },
+  { date: "2026-05-25", name: "Memorial Day" },
+  { date: "2026-06-19", name: "Juneteenth" },
+  { date: "2026-07-03", name: "Independence Day (observed)" },
+  { date: "2026-09-07", name: "Labor Day" },
+  { date: "2026-11-26", name: "Thanksgiving Day" },
+  { date: "2026-11-27", name: "Day after Thanksgiving", earlyClose: "13:00" },
+  { date: "2026-12-24", name: "Christmas Eve", earlyClose: "13:00" },
+  { date: "2026-12-25", name: "Christmas Day" },
+  { date: "2027-01-01", name: "New Year's Day" },
+  { date: "2027-01-18", name: "Martin Luther King Jr. Day" },
+  { date: "2027-02-15", name: "Washington's Birthday" },
+  { date: "2027-03-26", name: "Good Friday" },
+  { date: "2027-05-31", name: "Memorial Day" },
+  { date: "2027-06-18", name: "Juneteenth (observed)" },
+  { date: "2027-07-05", name: "Independence Day (observed)" },
+  { date: "2027-09-06", name: "Labor Day" },
+  { date: "2027-11-25", name: "Thanksgiving Day" },
+  { date: "2027-11-26", name: "Day after Thanksgiving", earlyClose: "13:00" },
+  { date: "2027-12-24", name: "Christmas Day (observed)" },
+];
+
+/**
+ * Years the calendar should cover but has no entries for: the current year,
+ * and from November on the next one too, so the gap shows before it matters.
+ * `today` is an Eastern date, YYYY-MM-DD.
+ */
+export function uncoveredYears(holidays: MarketHoliday[], today: string): number[] {
+  const year = Number(today.slice(0, 4));
+  const wanted = Number(today.slice(5, 7)) >= 11 ? [year, year + 1] : [year];
+  return wanted.filter(y => !holidays.some(h => h.date.startsWith(`${y}-`)));
+}
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const etFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: MARKET_TZ,
+  year: "numeric", month: "2-digit", day: "2-digit",
+  hour: "2-digit", minute: "2-digit", second: "2-digit",
+  hourCycle: "h23", weekday: "short",
+});
+
+export function toEastern(now: Date): EasternTime {
+  const parts: Record<string, string> = {};
+  for (const p of etFormatter.formatToParts(now)) parts[p.type] = p.value;
+  const h = Number(parts.hour), m = Number(parts.minute), s = Number(parts.second);
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    seconds: h * 3600 + m * 60 + s,
+  };
+}
+
+function hhmmToSeconds(hhmm: string): number {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 3600 + m * 60;
+}
+
+export function formatCountdown(seconds: number): string {
+  const abs = Math.abs(Math.round(seconds));
+  const h = Math.floor(abs / 3600);
+  const m = Math.floor((abs % 3600) / 60);
+  const s = abs % 60;
+  return `${seconds < 0 ? "-" : ""}${h}:${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+}
+
+/**
+ * Where `now` falls in the US equity session, and how close it is to StopTime.
+ * Takes the clock as an argument so it can be evaluated at any instant.
+ */
+export function evaluateSession(now: Date, stopTime: string, holidays: MarketHoliday[] = DEFAULT_HOLIDAYS): SessionState {
+  const et = toEastern(now);
+  const holiday = holidays.find(h => h.date === et.date) ?? null;
+  const isWeekend = et.weekday === 0 || et.weekday === 6;
+  const isTradingDay = !isWeekend && (holiday === null || holiday.earlyClose !== undefined);
+  const close = holiday?.earlyClose && TIME_RE.test(holiday.earlyClose) ? holiday.earlyClose : CLOSE;
+  // After an early close, extended hours end four hours later like a normal day
+  const afterClose = close === CLOSE ? AFTER_CLOSE : secondsToHHMM(hhmmToSeconds(close) + 4 * 3600);
+
+  const t = et.seconds;
+  const phase: MarketPhase = !isTradingDay ? "closed"
+    : t < hhmmToSeconds(PRE_OPEN) ? "closed"
+    : t < hhmmToSeconds(OPEN) ? "pre"
+    : t < hhmmToSeconds(close) ? "regular"
+    : t < hhmmToSeconds(afterClose) ? "after"
+    : "closed";
+
+  const hasStop = TIME_RE.test(stopTime);
+  const cutoff = !isTradingDay || !hasStop ? null
+    : hhmmToSeconds(stopTime) < hhmmToSeconds(close) ? stopTime : close;
+  const secondsToCutoff = cutoff === null ? null : hhmmToSeconds(cutoff) - t;
+
+  let stopStatus: Status = "Safe";
+  let reason: string;
+  if (!isTradingDay) {
+    reason = holiday ? `Market closed for ${holiday.name}` : "Market closed for the weekend";
+  } else if (!hasStop) {
+    reason = "No StopTime set";
+  } else if (secondsToCutoff! <= 0) {
+    // Still inside regular hours after the cutoff: DAS should have stopped this account
+    stopStatus = phase === "regular" ? "Danger" : "Safe";
+    reason = `Past the ${cutoff} ET cutoff`;
+  } else if (secondsToCutoff! <= DANGER_MINUTES * 60) {
+    stopStatus = "Danger";
+    reason = `Within ${DANGER_MINUTES} minutes of the ${cutoff} ET cutoff`;
+  } else if (secondsToCutoff! <= CAUTION_MINUTES * 60) {
+    stopStatus = "Caution";
+    reason = `Within ${CAUTION_MINUTES} minutes of the ${cutoff} ET cutoff`;
+  } else {
+    reason = `${formatCountdown(secondsToCutoff!)} until the ${cutoff} ET cutoff (Caution ≤ ${CAUTION_MINUTES}m, Danger ≤ ${DANGER_MINUTES}m)`;
+  }
+  if (isTradingDay && holiday?.earlyClose && hasStop && cutoff !== stopTime) {
+    reason += ` · early close for ${holiday.name}`;
+  }
+
+  return { et, phase, holiday, isTradingDay, close, cutoff, secondsToCutoff, stopStatus, reason };
+}
+
+function secondsToHHMM(total: number): string {
+  const h = Math.min(23, Math.floor(total / 3600));
+  const m = Math.floor((total % 3600) / 60);
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
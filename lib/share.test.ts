@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_MAP, type RiskSettings } from "@/lib/calc";
+import { defaultProfile, profileSettings, type AccountProfile } from "@/lib/profiles";
+import { SHARE_PARAM, buildProfileJson, buildShareLink, fromProfileExport, parseProfileJson, parseShareHash, toProfileExport } from "@/lib/share";
+
+const BASE_URL = "https://dash.example/";
+
+function account(patch: Partial<AccountProfile> = {}): AccountProfile {
+  return { ...defaultProfile("Main Account"), equity: 120_000, priorEquity: 118_000, todaysPnL: -450, ...patch };
+}
+
+const tiered: RiskSettings = {
+  ...PRESET_MAP.Custom,
+  totalLossLimit: 0.1,
+  perSymbolLossLimit: 0.02,
+  stopTime: "15:45",
+  equityTiers: [
+    { minEquity: 100_000, limits: { totalLossLimit: 0.08 } },
+    { minEquity: 250_000, limits: { totalLossLimit: 0.06, perSymbolLossLimit: 0.01 } },
+  ],
+  dollarClamps: { totalLossLimit: { min: 3_000, max: 25_000 } },
+};
+
+describe("profile export round trip", () => {
+  it("keeps a built-in mode built-in", () => {
+    const { profile, errors, warnings } = parseProfileJson(buildProfileJson(account({ mode: "Aggressive" })));
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(profile?.mode).toBe("Aggressive");
+    expect(profile?.customSettings).toEqual(PRESET_MAP.Custom);
+    expect(profile?.equity).toBe(120_000);
+    expect(profile?.todaysPnL).toBe(-450);
+  });
+
+  it("moves edited built-in settings into Custom with a warning", () => {
+    const doc = toProfileExport(account({ mode: "Standard" }));
+    const { profile, errors, warnings } = fromProfileExport({ ...doc, settings: { ...doc.settings, totalLossLimit: 0.25 } });
+    expect(errors).toEqual([]);
+    expect(warnings).toContain("Settings differ from the built-in Standard mode; imported as Custom");
+    expect(profile?.mode).toBe("Custom");
+    expect(profile?.customSettings).toEqual({ ...PRESET_MAP.Standard, totalLossLimit: 0.25 });
+  });
+
+  it("carries tiered and clamped Custom settings exactly", () => {
+    const source = account({ mode: "Custom", customSettings: tiered });
+    const { profile, errors, warnings } = parseProfileJson(buildProfileJson(source));
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(profile && profileSettings(profile)).toEqual(tiered);
+  });
+
+  it("reads exports written before tiers existed as flat settings", () => {
+    const doc = toProfileExport(account({ mode: "Custom", customSettings: { ...PRESET_MAP.Custom, totalLossLimit: 0.1 } }));
+    const { equityTiers: _tiers, dollarClamps: _clamps, ...older } = doc.settings;
+    const { profile, errors } = fromProfileExport({ ...doc, settings: older });
+    expect(errors).toEqual([]);
+    expect(profile?.customSettings).toEqual({ ...PRESET_MAP.Custom, totalLossLimit: 0.1 });
+  });
+
+  it("rejects other documents and newer versions", () => {
+    expect(fromProfileExport({ format: "something-else" }).errors).toEqual(["Not a Cobra risk profile export"]);
+    const doc = toProfileExport(account());
+    expect(fromProfileExport({ ...doc, version: 99 }).profile).toBeNull();
+    expect(parseProfileJson("{ nope").errors[0]).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe("share links", () => {
+  it("round-trips through the URL fragment, including non-ASCII names", () => {
+    const source = account({ name: "Zoë · 東京 desk 📈", mode: "Custom", customSettings: tiered });
+    const link = buildShareLink(source, [], BASE_URL);
+    expect(link.startsWith(`${BASE_URL}#${SHARE_PARAM}=`)).toBe(true);
+    expect(link).toMatch(/#share=[A-Za-z0-9_-]+$/);
+
+    const result = parseShareHash(new URL(link).hash);
+    expect(result?.errors).toEqual([]);
+    expect(result?.profile?.name).toBe("Zoë · 東京 desk 📈");
+    expect(result?.profile && profileSettings(result.profile)).toEqual(tiered);
+  });
+
+  it("ignores fragments without a share payload", () => {
+    expect(parseShareHash("")).toBeNull();
+    expect(parseShareHash("#section-2")).toBeNull();
+  });
+
+  it("reports a damaged fragment", () => {
+    const hash = new URL(buildShareLink(account(), [], BASE_URL)).hash;
+    const damaged = parseShareHash(hash.slice(0, hash.length - 25));
+    expect(damaged?.profile).toBeNull();
+    expect(damaged?.errors).toEqual(["The share link is damaged or incomplete"]);
+    expect(parseShareHash(`#${SHARE_PARAM}=!!!`)?.errors).toEqual(["The share link is damaged or incomplete"]);
+  });
+});
@@ -0,0 +1,166 @@
+import { DEFAULT_THRESHOLDS, PRESET_MAP, THRESHOLD_MAP, type Mode, type RiskSettings, type StatusThresholds } from "@/lib/calc";
+import { readPositions, type Position } from "@/lib/positions";
+import { findPreset, type NamedPreset } from "@/lib/presets";
+import { defaultProfile, profileSettings, profileSlug, profileThresholds, type AccountProfile } from "@/lib/profiles";
+import { deepEqual } from "@/lib/sync";
+import { readSettings } from "@/lib/tiers";
+import { isRecord, readFields } from "@/lib/utils";
+
+export const EXPORT_FORMAT = "cobra-risk-profile";
+export const EXPORT_VERSION = 1;
+
+// URL fragment parameter; the fragment never reaches the server
+export const SHARE_PARAM = "share";
+
+const MODES: Mode[] = ["Conservative", "Standard", "Aggressive", "Custom"];
+
+export interface ProfileInputs {
+  equity: number;
+  priorEquity: number;
+  todaysPnL: number;
+  haltedExposure: number;
+  positions: Position[];
+  tradeCount: number;
+  pnlHighWater: number;
+}
+
+// Self-contained account snapshot: resolved settings, so it imports without the preset library
+export interface ProfileExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;            // ISO timestamp
+  account: string;
+  mode: Mode;
+  preset: string | null;         // Named preset in use when exported, for reference only
+  settings: RiskSettings;
+  thresholds: StatusThresholds;
+  inputs: ProfileInputs;
+}
+
+export interface ProfileImportResult {
+  profile: AccountProfile | null; // Null when the document could not be read at all
+  doc: ProfileExport | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export function toProfileExport(profile: AccountProfile, presets: NamedPreset[] = [], now = new Date()): ProfileExport {
+  const preset = profile.mode === "Custom" ? findPreset(presets, profile.presetId) : undefined;
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    account: profile.name,
+    mode: profile.mode,
+    preset: preset?.name ?? null,
+    settings: { ...profileSettings(profile, presets) },
+    thresholds: { ...profileThresholds(profile, presets) },
+    inputs: {
+      equity: profile.equity,
+      priorEquity: profile.priorEquity,
+      todaysPnL: profile.todaysPnL,
+      haltedExposure: profile.haltedExposure,
+      positions: profile.positions,
+      tradeCount: profile.tradeCount,
+      pnlHighWater: profile.pnlHighWater,
+    },
+  };
+}
+
+export function buildProfileJson(profile: AccountProfile, presets: NamedPreset[] = []): string {
+  return JSON.stringify(toProfileExport(profile, presets), null, 2);
+}
+
+export function profileJsonFileName(profile: AccountProfile): string {
+  const slug = profileSlug(profile);
+  return slug ? `cobra-risk_${slug}.json` : "cobra-risk.json";
+}
+
+const sameFields = <T extends object>(a: T, b: T) => (Object.keys(a) as (keyof T)[]).every(k => deepEqual(a[k], b[k]));
+
+/**
+ * Turn an export document back into a new profile. Built-in modes stay
+ * built-in only when the settings still match that mode exactly; anything
+ * else lands in the Custom slot so no value is silently replaced.
+ */
+export function fromProfileExport(raw: unknown): ProfileImportResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+    return { profile: null, doc: null, errors: ["Not a Cobra risk profile export"], warnings };
+  }
+  if (typeof raw.version !== "number" || raw.version > EXPORT_VERSION) {
+    return { profile: null, doc: null, errors: [`Unsupported export version ${String(raw.version)}; this dashboard reads up to version ${EXPORT_VERSION}`], warnings };
+  }
+
+  const settings = readSettings(raw.settings, "settings", errors);
+  const thresholds = readFields(raw.thresholds, DEFAULT_THRESHOLDS, "thresholds", warnings);
+  const base = defaultProfile(typeof raw.account === "string" && raw.account.trim() ? raw.account.trim() : "Imported Account");
+  const inputsRaw = isRecord(raw.inputs) ? raw.inputs : {};
+  const inputTemplate = {
+    equity: base.equity, priorEquity: base.priorEquity, todaysPnL: base.todaysPnL, haltedExposure: base.haltedExposure,
+    tradeCount: base.tradeCount, pnlHighWater: base.pnlHighWater,
+  };
+  const inputs: ProfileInputs = { ...readFields(inputsRaw, inputTemplate, "inputs", warnings), positions: readPositions(inputsRaw.positions, "inputs.positions", warnings) };
+
+  const mode: Mode = MODES.includes(raw.mode as Mode) ? raw.mode as Mode : "Custom";
+  if (mode !== raw.mode) warnings.push(`Unknown mode "${String(raw.mode)}"; imported as Custom`);
+  const keepsBuiltIn = mode !== "Custom" && sameFields(settings, PRESET_MAP[mode]) && sameFields(thresholds, THRESHOLD_MAP[mode]);
+  if (mode !== "Custom" && !keepsBuiltIn) warnings.push(`Settings differ from the built-in ${mode} mode; imported as Custom`);
+  if (typeof raw.preset === "string" && raw.preset) warnings.push(`Preset "${raw.preset}" imported into the account's own Custom slot`);
+
+  const profile: AccountProfile = {
+    ...base,
+    ...inputs,
+    mode: keepsBuiltIn ? mode : "Custom",
+    customSettings: keepsBuiltIn ? PRESET_MAP.Custom : settings,
+    customThresholds: keepsBuiltIn ? THRESHOLD_MAP.Custom : thresholds,
+  };
+  const doc: ProfileExport = {
+    format: EXPORT_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+    account: profile.name,
+    mode,
+    preset: typeof raw.preset === "string" ? raw.preset : null,
+    settings,
+    thresholds,
+    inputs,
+  };
+  return { profile, doc, errors, warnings };
+}
+
+export function parseProfileJson(text: string): ProfileImportResult {
+  try {
+    return fromProfileExport(JSON.parse(text));
+  } catch (e) {
+    return { profile: null, doc: null, errors: [`Invalid JSON: ${(e as Error).message}`], warnings: [] };
+  }
+}
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+// `baseUrl` is the dashboard address without a fragment, e.g. location.origin + location.pathname
+export function buildShareLink(profile: AccountProfile, presets: NamedPreset[], baseUrl: string): string {
+  return `${baseUrl}#${SHARE_PARAM}=${toBase64Url(JSON.stringify(toProfileExport(profile, presets)))}`;
+}
+
+// Null when the fragment carries no share payload
+export function parseShareHash(hash: string): ProfileImportResult | null {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_PARAM);
+  if (!encoded) return null;
+  try {
+    return fromProfileExport(JSON.parse(fromBase64Url(encoded)));
+  } catch {
+    return { profile: null, doc: null, errors: ["The share link is damaged or incomplete"], warnings: [] };
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_MAP, type RiskSettings } from "@/lib/calc";
+import { evaluatePositions, type Position } from "@/lib/positions";
+import { evaluateRisk } from "@/lib/risk";
+import { sizePosition, type SizingOrder } from "@/lib/sizing";
+
+const EQUITY = 100_000;
+const order: SizingOrder = { symbol: "AAPL", side: "Long", entryPrice: 50, stopPrice: 49 };
+const flat = (settings: RiskSettings) => evaluatePositions([], settings, EQUITY);
+
+// Only the loss budget should bind in these cases
+const budgetOnly = (settings: RiskSettings): RiskSettings => ({
+  ...settings, perSymbolLossLimit: 0, perSymbolExposureLimit: 0, totalExposureLimit: 0, maxSharesPerPosition: 0, maxOrderSize: 0, maxPositions: 0,
+});
+
+describe("daily loss budget in the sizer", () => {
+  it("matches the status chip, counting open losses", () => {
+    const settings = budgetOnly(PRESET_MAP.Standard);
+    const result = sizePosition(order, settings, EQUITY, -2_000, -1_000, flat(settings));
+    const risk = evaluateRisk(settings, { equity: EQUITY, priorEquity: EQUITY, todaysPnL: -2_000, haltedExposure: 0, unrealizedPnL: -1_000 });
+    expect(result.dailyBudgetLeft).toBe(risk.remainingBudget);
+    expect(result.dailyBudgetLeft).toBe(12_000);
+    expect(result.binding?.cfgKey).toBe("TotalLossLimit");
+    expect(result.shares).toBe(12_000);
+  });
+
+  it("falls back to TotalLossLimit and ignores gains", () => {
+    const settings = budgetOnly(PRESET_MAP.Standard);
+    const result = sizePosition(order, settings, EQUITY, 4_000, -500, flat(settings));
+    expect(result.dailyBudgetLeft).toBe(14_500);
+  });
+
+  it("uses DayLossLimit when one is set", () => {
+    const settings = budgetOnly({ ...PRESET_MAP.Custom, dailyLossLimit: 0.02, totalLossLimit: 0.05 });
+    const result = sizePosition(order, settings, EQUITY, -500, -1_000, flat(settings));
+    expect(result.dailyBudgetLeft).toBe(500);
+    expect(result.binding?.cfgKey).toBe("DayLossLimit");
+    expect(result.shares).toBe(500);
+  });
+
+  it("does not cap anything without a loss limit", () => {
+    const settings = budgetOnly(PRESET_MAP.Custom);
+    const result = sizePosition(order, settings, EQUITY, -5_000, 0, flat(settings));
+    expect(result.dailyBudgetLeft).toBeNull();
+    expect(result.binding).toBeNull();
+  });
+});
+
+describe("positions already held", () => {
+  const position = (symbol: string, side: Position["side"], avgPrice: number, lastPrice: number): Position =>
+    ({ id: `${symbol}-${side}`, symbol, side, shares: 100, avgPrice, lastPrice });
+  const constraint = (settings: RiskSettings, positions: Position[], o: SizingOrder = order) =>
+    (cfgKey: string) => sizePosition(o, settings, EQUITY, 0, 0, evaluatePositions(positions, settings, EQUITY)).constraints.find(c => c.cfgKey === cfgKey)!;
+
+  it("takes the open loss on the symbol out of the per-symbol loss limit, whichever side it is on", () => {
+    const settings: RiskSettings = { ...PRESET_MAP.Custom, perSymbolLossLimit: 0.035 };
+    expect(constraint(settings, [])("PosUnrealLossLimit").maxShares).toBe(3_500);
+
+    const long = constraint(settings, [position("AAPL", "Long", 60, 50)])("PosUnrealLossLimit");
+    expect(long.maxShares).toBe(2_500);
+    expect(long.detail).toBe("$3,500 less $1,000 open loss in AAPL, ÷ $1 risk per share");
+    expect(constraint(settings, [position("AAPL", "Short", 40, 50)])("PosUnrealLossLimit").maxShares).toBe(2_500);
+    expect(constraint(settings, [position("MSFT", "Long", 60, 50)])("PosUnrealLossLimit").maxShares).toBe(3_500);
+  });
+
+  it("does not count an order in a symbol already held as a new position", () => {
+    const settings: RiskSettings = { ...PRESET_MAP.Custom, maxPositions: 2 };
+    const positions = [position("AAPL", "Short", 50, 50), position("MSFT", "Long", 50, 50)];
+    expect(constraint(settings, positions)("MaxPositions").maxShares).toBeNull();
+    expect(constraint(settings, positions, { ...order, symbol: "tsla" })("MaxPositions").maxShares).toBe(0);
+  });
+});
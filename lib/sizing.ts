@@ -0,0 +1,141 @@
+import { type RiskSettings, dollars } from "@/lib/calc";
+import { type LedgerEvaluation, type Side } from "@/lib/positions";
+import { computeLimits, lossBudget } from "@/lib/risk";
+
+export interface SizingOrder {
+  symbol: string;
+  side: Side;
+  entryPrice: number;
+  stopPrice: number;
+}
+
+// One limit that caps the share count; `maxShares` is null when the limit is not set
+export interface SizingConstraint {
+  limit: string;
+  cfgKey: string;
+  maxShares: number | null;
+  detail: string;
+}
+
+export interface SizingResult {
+  shares: number;
+  binding: SizingConstraint | null; // The constraint that set `shares`; null when nothing caps it
+  constraints: SizingConstraint[];
+  riskPerShare: number;
+  riskDollars: number;           // Loss if the stop is hit at `shares`
+  positionValue: number;
+  dailyBudgetLeft: number | null; // Dollars of loss budget left, as the Daily Loss Budget chip counts it
+  dailyBudgetUsed: number | null; // Share of that budget a stop-out would consume
+  exposureLeft: number | null;   // Dollars left under OpenPosValueLimit
+  exposureUsed: number | null;
+  errors: string[];
+}
+
+const floorShares = (n: number) => Math.max(0, Math.floor(n));
+
+/**
+ * Largest share count that keeps an order inside every configured limit, given
+ * today's P&L and what the ledger already holds. Holdings are matched by
+ * symbol: same-side shares count against the per-position caps, and an open
+ * loss on either side uses up the per-symbol loss limit. Limits of 0 are not
+ * set and never bind.
+ */
+export function sizePosition(order: SizingOrder, settings: RiskSettings, equity: number, todaysPnL: number, unrealizedPnL: number, ledger: LedgerEvaluation): SizingResult {
+  const limits = computeLimits(settings, equity);
+  const { entryPrice, stopPrice, side } = order;
+  const symbol = order.symbol.trim().toUpperCase();
+
+  const errors: string[] = [];
+  if (!(entryPrice > 0)) errors.push("Entry price must be greater than 0");
+  if (!(stopPrice > 0)) errors.push("Stop price must be greater than 0");
+  else if (side === "Long" && stopPrice >= entryPrice) errors.push("A long stop must be below the entry price");
+  else if (side === "Short" && stopPrice <= entryPrice) errors.push("A short stop must be above the entry price");
+
+  const riskPerShare = Math.abs(entryPrice - stopPrice);
+  const inSymbol = ledger.rows.filter(r => r.position.symbol.trim().toUpperCase() === symbol);
+  const held = inSymbol.filter(r => r.position.side === side);
+  const heldShares = held.reduce((sum, r) => sum + Math.abs(r.position.shares), 0);
+  const heldValue = held.reduce((sum, r) => sum + r.marketValue, 0);
+
+  const budget = lossBudget(limits, todaysPnL, unrealizedPnL);
+  const dailyBudgetLeft = budget.source ? Math.max(0, budget.remaining) : null;
+  const exposureLeft = limits.totalExposure > 0 ? Math.max(0, limits.totalExposure - ledger.totalExposure) : null;
+  const symbolLossCap = Math.abs(limits.perSymbolLimit);
+  const openSymbolLoss = Math.max(0, -inSymbol.reduce((sum, r) => sum + r.unrealizedPnL, 0));
+  // An order in a symbol already held, long or short, does not open another position
+  const atMaxPositions = settings.maxPositions > 0 && inSymbol.length === 0 && ledger.positionCount >= settings.maxPositions;
+
+  const constraints: SizingConstraint[] = [
+    {
+      limit: "Per-symbol loss",
+      cfgKey: "PosUnrealLossLimit",
+      maxShares: symbolLossCap > 0 && riskPerShare > 0 ? floorShares((symbolLossCap - openSymbolLoss) / riskPerShare) : null,
+      detail: openSymbolLoss > 0
+        ? `${dollars(symbolLossCap)} less ${dollars(openSymbolLoss)} open loss in ${symbol}, ÷ ${dollars(riskPerShare)} risk per share`
+        : `${dollars(symbolLossCap)} ÷ ${dollars(riskPerShare)} risk per share`,
+    },
+    {
+      limit: "Per-symbol exposure",
+      cfgKey: "PosMktValueLimit",
+      maxShares: limits.perTickerExposure > 0 && entryPrice > 0 ? floorShares((limits.perTickerExposure - heldValue) / entryPrice) : null,
+      detail: heldValue > 0
+        ? `${dollars(limits.perTickerExposure)} less ${dollars(heldValue)} already held in ${symbol}`
+        : `${dollars(limits.perTickerExposure)} ÷ ${dollars(entryPrice)} entry`,
+    },
+    {
+      limit: "Max shares per position",
+      cfgKey: "MaxSharesPerPosition",
+      maxShares: settings.maxSharesPerPosition > 0 ? floorShares(settings.maxSharesPerPosition - heldShares) : null,
+      detail: heldShares > 0
+        ? `${settings.maxSharesPerPosition.toLocaleString()} less ${heldShares.toLocaleString()} already held`
+        : `${settings.maxSharesPerPosition.toLocaleString()} shares`,
+    },
+    {
+      limit: "Max order size",
+      cfgKey: "MaxOrderSize",
+      maxShares: settings.maxOrderSize > 0 ? settings.maxOrderSize : null,
+      detail: `${settings.maxOrderSize.toLocaleString()} shares per order`,
+    },
+    {
+      limit: "Total exposure left",
+      cfgKey: "OpenPosValueLimit",
+      maxShares: exposureLeft !== null && entryPrice > 0 ? floorShares(exposureLeft / entryPrice) : null,
+      detail: `${dollars(exposureLeft ?? 0)} left of ${dollars(limits.totalExposure)}`,
+    },
+    {
+      limit: "Daily loss budget left",
+      cfgKey: budget.source ?? "DayLossLimit",
+      maxShares: dailyBudgetLeft !== null && riskPerShare > 0 ? floorShares(dailyBudgetLeft / riskPerShare) : null,
+      detail: `${dollars(dailyBudgetLeft ?? 0)} of ${dollars(budget.limit)} left today, open losses included`,
+    },
+    {
+      limit: "Max concurrent positions",
+      cfgKey: "MaxPositions",
+      maxShares: atMaxPositions ? 0 : null,
+      detail: `${ledger.positionCount} of ${settings.maxPositions} positions open`,
+    },
+  ];
+
+  const binding = errors.length > 0 ? null : constraints
+    .filter(c => c.maxShares !== null)
+    .reduce<SizingConstraint | null>((min, c) => min === null || c.maxShares! < min.maxShares! ? c : min, null);
+  const shares = errors.length > 0 || binding === null ? 0 : binding.maxShares!;
+  const riskDollars = shares * riskPerShare;
+  const positionValue = shares * entryPrice;
+
+  if (errors.length === 0 && binding === null) errors.push("No share, exposure or loss limits are set, so nothing caps this order");
+
+  return {
+    shares,
+    binding,
+    constraints,
+    riskPerShare,
+    riskDollars,
+    positionValue,
+    dailyBudgetLeft,
+    dailyBudgetUsed: dailyBudgetLeft ? riskDollars / dailyBudgetLeft : null,
+    exposureLeft,
+    exposureUsed: exposureLeft ? positionValue / exposureLeft : null,
+    errors,
+  };
+}
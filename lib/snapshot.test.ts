@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { defaultProfile } from "@/lib/profiles";
+import { parseSnapshot, snapshotTarget } from "@/lib/snapshot";
+
+const NOW = new Date("2026-03-10T15:00:00Z");
+
+describe("parseSnapshot", () => {
+  it("requires the account the values are for", () => {
+    expect(parseSnapshot({ equity: 55_000 }, NOW)).toEqual({ snapshot: null, errors: ["account is required (the dashboard account's name or id)"] });
+    expect(parseSnapshot({ account: " ", equity: 55_000 }, NOW).errors).toEqual(["account must be a non-empty string"]);
+  });
+
+  it("keeps the values of a valid push", () => {
+    expect(parseSnapshot({ account: " Main Account ", equity: 55_000, realizedPnL: -320 }, NOW)).toEqual({
+      snapshot: { account: "Main Account", equity: 55_000, realizedPnL: -320, receivedAt: NOW.toISOString() },
+      errors: [],
+    });
+  });
+});
+
+describe("snapshotTarget", () => {
+  const main = { ...defaultProfile("Main Account"), id: "main" };
+  const scalper = { ...defaultProfile("Scalper"), id: "scalp" };
+  const snapshot = (account: string) => ({ account, equity: 1, receivedAt: NOW.toISOString() });
+
+  it("matches by id, then by name ignoring case", () => {
+    expect(snapshotTarget([main, scalper], snapshot("scalp"))).toBe(scalper);
+    expect(snapshotTarget([main, scalper], snapshot("main account"))).toBe(main);
+  });
+
+  it("matches nothing for an unknown account rather than falling back to one", () => {
+    expect(snapshotTarget([main, scalper], snapshot("TR1234"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { readPositions, type Position } from "@/lib/positions";
+import { type AccountProfile } from "@/lib/profiles";
+import { isRecord } from "@/lib/utils";
+
+// Account values pushed by a script to POST /api/snapshot and streamed to open dashboards
+export interface AccountSnapshot {
+  account: string;               // Dashboard account name or id; required so every tab updates the same one
+  equity?: number;
+  realizedPnL?: number;          // Lands in Today's P&L
+  unrealizedPnL?: number;        // Used when no positions are sent; positions carry their own
+  haltedExposure?: number;
+  tradeCount?: number;
+  positions?: Position[];
+  receivedAt: string;            // ISO timestamp, set by the server
+}
+
+export interface SnapshotParse {
+  snapshot: AccountSnapshot | null;
+  errors: string[];
+}
+
+type NumberField = "equity" | "realizedPnL" | "unrealizedPnL" | "haltedExposure" | "tradeCount";
+
+const NUMBER_FIELDS: { field: NumberField; check?: (n: number) => string | null }[] = [
+  { field: "equity", check: n => n > 0 ? null : "must be greater than 0" },
+  { field: "realizedPnL" },
+  { field: "unrealizedPnL" },
+  { field: "haltedExposure", check: n => n >= 0 ? null : "cannot be negative" },
+  { field: "tradeCount", check: n => Number.isInteger(n) && n >= 0 ? null : "must be a whole number of 0 or more" },
+];
+
+const KNOWN_FIELDS = new Set<string>(["account", "positions", ...NUMBER_FIELDS.map(f => f.field)]);
+
+/**
+ * Validate a pushed payload. Unlike saved state, nothing is repaired: any bad
+ * field rejects the whole snapshot, so a broken script cannot half-update an
+ * account. Positions without an id get one derived from symbol and side, so
+ * every dashboard receiving the snapshot keys them the same way.
+ */
+export function parseSnapshot(raw: unknown, now: Date = new Date()): SnapshotParse {
+  if (!isRecord(raw)) return { snapshot: null, errors: ["Body must be a JSON object"] };
+  const errors: string[] = [];
+  const snapshot: AccountSnapshot = { account: "", receivedAt: now.toISOString() };
+
+  for (const key of Object.keys(raw)) {
+    if (!KNOWN_FIELDS.has(key)) errors.push(`Unknown field "${key}"`);
+  }
+
+  if (raw.account === undefined) errors.push("account is required (the dashboard account's name or id)");
+  else if (typeof raw.account === "string" && raw.account.trim() !== "") snapshot.account = raw.account.trim();
+  else errors.push("account must be a non-empty string");
+
+  for (const { field, check } of NUMBER_FIELDS) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      errors.push(`${field} must be a number`);
+      continue;
+    }
+    const problem = check?.(value);
+    if (problem) errors.push(`${field} ${problem}`);
+    else snapshot[field] = value;
+  }
+
+  if (raw.positions !== undefined) {
+    const used = new Set<string>();
+    const rows = Array.isArray(raw.positions) ? raw.positions.map((row, i) => {
+      if (!isRecord(row) || (typeof row.id === "string" && row.id !== "")) return row;
+      const base = `${String(row.symbol ?? "").trim().toUpperCase()}-${String(row.side ?? "")}`;
+      const id = used.has(base) ? `${base}-${i}` : base;
+      used.add(id);
+      return { ...row, id };
+    }) : raw.positions;
+    const issues: string[] = [];
+    snapshot.positions = readPositions(rows, "positions", issues);
+    errors.push(...issues.map(issue => issue.replace(/; (skipped|ignored)$/, "")));
+  }
+
+  if (!NUMBER_FIELDS.some(f => raw[f.field] !== undefined) && raw.positions === undefined) {
+    errors.push("Snapshot has no values to apply");
+  }
+  return errors.length > 0 ? { snapshot: null, errors } : { snapshot, errors };
+}
+
+// The account a snapshot is for: matched by id, then by name (case-insensitive). Never the open one, which differs per tab
+export function snapshotTarget(profiles: AccountProfile[], snapshot: AccountSnapshot): AccountProfile | undefined {
+  const wanted = snapshot.account.toLowerCase();
+  return profiles.find(p => p.id === snapshot.account) ?? profiles.find(p => p.name.trim().toLowerCase() === wanted);
+}
+
+export function applySnapshot(profile: AccountProfile, snapshot: AccountSnapshot): AccountProfile {
+  const next = { ...profile };
+  if (snapshot.equity !== undefined) next.equity = snapshot.equity;
+  if (snapshot.realizedPnL !== undefined) next.todaysPnL = snapshot.realizedPnL;
+  if (snapshot.haltedExposure !== undefined) next.haltedExposure = snapshot.haltedExposure;
+  if (snapshot.tradeCount !== undefined) next.tradeCount = snapshot.tradeCount;
+  if (snapshot.positions !== undefined) {
+    next.positions = snapshot.positions;
+    delete next.reportedUnrealizedPnL;
+  } else if (snapshot.unrealizedPnL !== undefined) {
+    next.reportedUnrealizedPnL = snapshot.unrealizedPnL;
+  }
+  return next;
+}
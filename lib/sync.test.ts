@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { type AuditEntry } from "@/lib/audit";
+import { emptyState, type PersistedState } from "@/lib/persisted-state";
+import { defaultProfile } from "@/lib/profiles";
+import { mergeStates } from "@/lib/sync";
+
+const main = { ...defaultProfile("Main"), id: "main" };
+const scalper = { ...defaultProfile("Scalper"), id: "scalp" };
+const base: PersistedState = { ...emptyState(), profiles: [main, scalper], activeProfileId: "main" };
+
+function entry(id: string, at: string): AuditEntry {
+  return { id, at, profileId: "main", account: "Main", kind: "equity", field: "Equity", before: "$55,000", after: "$60,000", loosened: false, reason: "" };
+}
+
+describe("mergeStates", () => {
+  it("keeps a delete made in one tab", () => {
+    const local: PersistedState = { ...base, profiles: [main] };
+    const { state, conflicts } = mergeStates(base, local, base);
+    expect(state.profiles.map(p => p.id)).toEqual(["main"]);
+    expect(conflicts).toEqual([]);
+
+    // ...and when the other tab made it
+    expect(mergeStates(base, base, local).state.profiles.map(p => p.id)).toEqual(["main"]);
+  });
+
+  it("keeps both tabs' edits to different fields of the same account", () => {
+    const local: PersistedState = { ...base, profiles: [{ ...main, equity: 60_000 }, scalper] };
+    const remote: PersistedState = { ...base, profiles: [{ ...main, todaysPnL: -400 }, scalper] };
+    const { state, conflicts } = mergeStates(base, local, remote);
+    expect(state.profiles[0]).toMatchObject({ id: "main", equity: 60_000, todaysPnL: -400 });
+    expect(conflicts).toEqual([]);
+  });
+
+  it("lets the other tab win a same-field conflict and reports what was overwritten", () => {
+    const local: PersistedState = { ...base, profiles: [{ ...main, equity: 60_000 }, scalper] };
+    const remote: PersistedState = { ...base, profiles: [{ ...main, equity: 58_000 }, scalper] };
+    const { state, conflicts } = mergeStates(base, local, remote);
+    expect(state.profiles[0].equity).toBe(58_000);
+    expect(conflicts).toEqual([{ label: 'Account "Main" · equity', kept: 58_000, discarded: 60_000 }]);
+  });
+
+  it("keeps audit entries appended in both tabs, in time order", () => {
+    const first = entry("a", "2026-03-10T14:00:00.000Z");
+    const older = { ...base, audit: [first] };
+    const local = { ...older, audit: [first, entry("l", "2026-03-10T14:05:00.000Z")] };
+    const remote = { ...older, audit: [first, entry("r", "2026-03-10T14:02:00.000Z")] };
+    expect(mergeStates(older, local, remote).state.audit.map(e => e.id)).toEqual(["a", "r", "l"]);
+  });
+
+  it("keeps this tab's open account unless the other tab deleted it", () => {
+    const local = { ...base, activeProfileId: "scalp" };
+    expect(mergeStates(base, local, base).state.activeProfileId).toBe("scalp");
+    expect(mergeStates(base, local, { ...base, profiles: [main] }).state.activeProfileId).toBe("main");
+  });
+});
@@ -0,0 +1,87 @@
+import { type PersistedState } from "@/lib/persisted-state";
+import { isRecord } from "@/lib/utils";
+
+// One field both this tab and another tab changed; the other tab's write is kept
+export interface SyncConflict {
+  label: string;                 // e.g. `Account "Main" · todaysPnL`
+  kept: unknown;
+  discarded: unknown;
+}
+
+export interface MergeResult {
+  state: PersistedState;
+  conflicts: SyncConflict[];
+}
+
+// Structural equality that ignores key order, since normalized documents rebuild objects
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (isRecord(a) && isRecord(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(k => deepEqual(a[k], b[k]));
+  }
+  return false;
+}
+
+/**
+ * Three-way merge of one value. A side that still matches `base` takes the
+ * other side's edit; objects changed on both sides merge key by key, so two
+ * tabs editing different fields of the same account both keep their edits.
+ */
+function mergeValue(base: unknown, local: unknown, remote: unknown, label: string, conflicts: SyncConflict[]): unknown {
+  if (deepEqual(local, remote) || deepEqual(base, local)) return remote;
+  if (deepEqual(base, remote)) return local;
+  if (isRecord(base) && isRecord(local) && isRecord(remote)) {
+    const merged: Record<string, unknown> = {};
+    for (const key of new Set([...Object.keys(remote), ...Object.keys(local)])) {
+      const value = mergeValue(base[key], local[key], remote[key], `${label} · ${key}`, conflicts);
+      if (value !== undefined) merged[key] = value;
+    }
+    return merged;
+  }
+  conflicts.push({ label, kept: remote, discarded: local });
+  return remote;
+}
+
+// Lists of records with ids merge item by item; an item missing on one side was deleted there
+function mergeById<T extends { id: string }>(base: T[], local: T[], remote: T[], labelOf: (item: T) => string, conflicts: SyncConflict[]): T[] {
+  const byId = (list: T[]) => new Map(list.map(item => [item.id, item]));
+  const b = byId(base), l = byId(local), r = byId(remote);
+  const ids = [...r.keys(), ...[...l.keys()].filter(id => !r.has(id))];
+  return ids.flatMap(id => {
+    const sample = l.get(id) ?? r.get(id)!;
+    const merged = mergeValue(b.get(id), l.get(id), r.get(id), labelOf(sample), conflicts);
+    return merged === undefined ? [] : [merged as T];
+  });
+}
+
+// The audit log is append-only, so both sides' entries are kept, in time order
+function mergeLog<T extends { id: string; at: string }>(local: T[], remote: T[]): T[] {
+  const ids = new Set(remote.map(e => e.id));
+  return [...remote, ...local.filter(e => !ids.has(e.id))].sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/**
+ * Fold a document written by another tab into this tab's state. `base` is the
+ * last document both tabs agreed on (what this tab last loaded, saved or
+ * received). Edits only one side made are kept; when both sides changed the
+ * same field the other tab's value wins, because it reached storage first,
+ * and the overwritten value is reported. The active account stays per tab.
+ */
+export function mergeStates(base: PersistedState, local: PersistedState, remote: PersistedState): MergeResult {
+  const conflicts: SyncConflict[] = [];
+  const profiles = mergeById(base.profiles, local.profiles, remote.profiles, p => `Account "${p.name}"`, conflicts);
+  const state: PersistedState = {
+    version: remote.version,
+    profiles,
+    activeProfileId: profiles.some(p => p.id === local.activeProfileId) ? local.activeProfileId : profiles[0]?.id ?? "",
+    journal: mergeById(base.journal, local.journal, remote.journal, e => `Journal ${e.date}`, conflicts),
+    presets: mergeById(base.presets, local.presets, remote.presets, p => `Preset "${p.name}"`, conflicts),
+    holidays: mergeValue(base.holidays, local.holidays, remote.holidays, "Holiday calendar", conflicts) as PersistedState["holidays"],
+    alertPrefs: mergeValue(base.alertPrefs, local.alertPrefs, remote.alertPrefs, "Alert settings", conflicts) as PersistedState["alertPrefs"],
+    auditPrefs: mergeValue(base.auditPrefs, local.auditPrefs, remote.auditPrefs, "Change log settings", conflicts) as PersistedState["auditPrefs"],
+    audit: mergeLog(local.audit, remote.audit),
+  };
+  return { state, conflicts };
+}
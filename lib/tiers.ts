@@ -0,0 +1,150 @@
+import { PRESET_MAP, dollars, pct, type DollarClamp, type EquityTier, type RiskSettings, type ScaledField } from "@/lib/calc";
+import { isRecord, readFields } from "@/lib/utils";
+
+// In the order RiskControl.cfg lists them
+export const SCALED_FIELDS: ScaledField[] = ["totalLossLimit", "perSymbolLossLimit", "perSymbolExposureLimit", "totalExposureLimit", "profitLockStart", "dailyLossLimit"];
+
+// How one limit came out at a given equity
+export interface ScaledLimit {
+  field: ScaledField;
+  fraction: number;              // Share of equity used: the tier's, else the flat setting
+  tier: EquityTier | null;       // The band that set `fraction`; null when the flat setting applied
+  unclamped: number;             // equity × fraction, positive dollars
+  amount: number;                // After the clamp, positive dollars
+  clamp: "min" | "max" | null;   // Which side of the clamp moved the amount
+}
+
+export type ScaledLimits = Record<ScaledField, ScaledLimit>;
+
+// The band `equity` falls in: the tier with the highest minEquity at or below it
+export function activeTier(tiers: EquityTier[], equity: number): EquityTier | null {
+  return tiers.reduce<EquityTier | null>((best, t) => t.minEquity <= equity && (!best || t.minEquity > best.minEquity) ? t : best, null);
+}
+
+/**
+ * Resolve every dollar limit at `equity`: the active tier's percentage where
+ * it sets one, else the flat setting, then the dollar clamp. A limit left at 0
+ * stays off; a floor does not switch it on.
+ */
+export function scaleLimits(settings: RiskSettings, equity: number): ScaledLimits {
+  const tier = activeTier(settings.equityTiers, equity);
+  const out = {} as ScaledLimits;
+  for (const field of SCALED_FIELDS) {
+    const tiered = tier?.limits[field];
+    const fraction = tiered ?? settings[field];
+    const unclamped = equity * fraction;
+    const { min = 0, max = 0 } = settings.dollarClamps[field] ?? {};
+    const clamp = !(fraction > 0) ? null : min > 0 && unclamped < min ? "min" : max > 0 && unclamped > max ? "max" : null;
+    out[field] = {
+      field,
+      fraction,
+      tier: tiered !== undefined ? tier : null,
+      unclamped,
+      amount: clamp === "min" ? min : clamp === "max" ? max : unclamped,
+      clamp,
+    };
+  }
+  return out;
+}
+
+export const hasScaling = (s: RiskSettings) => s.equityTiers.length > 0 || Object.keys(s.dollarClamps).length > 0;
+
+export function tierLabel(tier: EquityTier): string {
+  return `${dollars(tier.minEquity)}+`;
+}
+
+// e.g. "8% from the $100,000+ tier · capped at $25,000 (was $40,000)"
+export function scaledNote(s: ScaledLimit): string {
+  const source = s.tier ? `${pct(s.fraction, 2)} from the ${tierLabel(s.tier)} tier` : `${pct(s.fraction, 2)} flat`;
+  if (s.clamp === "min") return `${source} · raised to the ${dollars(s.amount)} floor (was ${dollars(s.unclamped)})`;
+  if (s.clamp === "max") return `${source} · capped at ${dollars(s.amount)} (was ${dollars(s.unclamped)})`;
+  return source;
+}
+
+// One-line summaries for the change log, e.g. "$0+: Total 10% · $250,000+: Total 6%"
+export function describeTiers(tiers: EquityTier[], labelOf: (field: ScaledField) => string): string {
+  if (tiers.length === 0) return "None";
+  return [...tiers].sort((a, b) => a.minEquity - b.minEquity).map(t => {
+    const limits = SCALED_FIELDS.filter(f => t.limits[f] !== undefined).map(f => `${labelOf(f)} ${pct(t.limits[f]!, 2)}`);
+    return `${tierLabel(t)}: ${limits.join(", ") || "flat"}`;
+  }).join(" · ");
+}
+
+export function describeClamps(clamps: RiskSettings["dollarClamps"], labelOf: (field: ScaledField) => string): string {
+  const set = SCALED_FIELDS.flatMap(f => {
+    const c = clamps[f];
+    if (!c) return [];
+    const sides = [c.min > 0 && `≥ ${dollars(c.min)}`, c.max > 0 && `≤ ${dollars(c.max)}`].filter(Boolean);
+    return sides.length > 0 ? [`${labelOf(f)} ${sides.join(" ")}`] : [];
+  });
+  return set.join(" · ") || "None";
+}
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+export function readEquityTiers(raw: unknown, label: string, invalid: string[]): EquityTier[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    invalid.push(`${label} should be a list; dropped`);
+    return [];
+  }
+  return raw.flatMap((t, i): EquityTier[] => {
+    if (!isRecord(t) || !isFiniteNumber(t.minEquity) || t.minEquity < 0) {
+      invalid.push(`${label}[${i}] needs a minEquity of 0 or more; dropped`);
+      return [];
+    }
+    const limits: EquityTier["limits"] = {};
+    const rawLimits = isRecord(t.limits) ? t.limits : {};
+    for (const [key, value] of Object.entries(rawLimits)) {
+      if (!SCALED_FIELDS.includes(key as ScaledField)) invalid.push(`${label}[${i}].limits.${key} is not a dollar limit; ignored`);
+      else if (!isFiniteNumber(value)) invalid.push(`${label}[${i}].limits.${key} should be a number; ignored`);
+      else limits[key as ScaledField] = value;
+    }
+    return [{ minEquity: t.minEquity, limits }];
+  }).sort((a, b) => a.minEquity - b.minEquity);
+}
+
+export function readDollarClamps(raw: unknown, label: string, invalid: string[]): RiskSettings["dollarClamps"] {
+  if (raw === undefined) return {};
+  if (!isRecord(raw)) {
+    invalid.push(`${label} should be an object; dropped`);
+    return {};
+  }
+  const clamps: RiskSettings["dollarClamps"] = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!SCALED_FIELDS.includes(key as ScaledField)) {
+      invalid.push(`${label}.${key} is not a dollar limit; ignored`);
+      continue;
+    }
+    const side = (v: unknown, name: string) => {
+      if (v === undefined) return 0;
+      if (isFiniteNumber(v) && v >= 0) return v;
+      invalid.push(`${label}.${key}.${name} should be a dollar amount of 0 or more; using 0`);
+      return 0;
+    };
+    if (!isRecord(value)) {
+      invalid.push(`${label}.${key} should be an object; ignored`);
+      continue;
+    }
+    const clamp: DollarClamp = { min: side(value.min, "min"), max: side(value.max, "max") };
+    clamps[key as ScaledField] = clamp;
+  }
+  return clamps;
+}
+
+/**
+ * RiskSettings from saved or imported data: the flat fields as readFields
+ * reads them, then the tier table and clamps entry by entry. Data written
+ * before tiers existed has none, which is what it meant, so their absence is
+ * not reported.
+ */
+export function readSettings(raw: unknown, label: string, invalid: string[], missing: string[] = invalid): RiskSettings {
+  const { equityTiers: _tiers, dollarClamps: _clamps, ...flat } = PRESET_MAP.Custom;
+  const settings = readFields(raw, flat, label, invalid, missing);
+  const source = isRecord(raw) ? raw : {};
+  return {
+    ...settings,
+    equityTiers: readEquityTiers(source.equityTiers, `${label}.equityTiers`, invalid),
+    dollarClamps: readDollarClamps(source.dollarClamps, `${label}.dollarClamps`, invalid),
+  };
+}
@@ -4,3 +4,45 @@ export function cn(...inputs: ClassValue[]) {
   return clsx(inputs);
 }
 
+
+export function newId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+}
+
+export function downloadText(filename: string, text: string) {
+  const blob = new Blob([text], { type: "text/plain;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = filename; a.click();
+  URL.revokeObjectURL(url);
+}
+
+// A name made safe for a file name; empty when nothing usable is left
+export function fileSlug(name: string): string {
+  return name.trim().replace(/[^A-Za-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+export const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+/**
+ * Copy the fields of `raw` whose type matches `template`; anything missing or
+ * mistyped keeps the template value and is reported as `${label}.${field}`.
+ */
+export function readFields<T extends object>(raw: unknown, template: T, label: string, invalid: string[], missing: string[] = invalid): T {
+  const out = { ...template };
+  if (!isRecord(raw)) {
+    (raw === undefined ? missing : invalid).push(`${label} ${raw === undefined ? "missing" : "unreadable"}; using defaults`);
+    return out;
+  }
+  for (const key of Object.keys(template) as (keyof T)[]) {
+    const value = raw[key as string];
+    if (value === undefined) {
+      missing.push(`${label}.${String(key)} missing; using default`);
+    } else if (typeof value !== typeof template[key] || (typeof value === "number" && !Number.isFinite(value))) {
+      invalid.push(`${label}.${String(key)} should be a ${typeof template[key]}; using default`);
+    } else {
+      out[key] = value as T[keyof T];
+    }
+  }
+  return out;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { PRESET_MAP, type RiskSettings } from "@/lib/calc";
+import { validateSettings } from "@/lib/validation";
+
+const EQUITY = 100_000;
+
+const PAIRWISE = ["symbolExposureWithinTotal", "symbolLossWithinTotal", "dailyLossWithinTotal", "symbolLossWithinSymbolExposure"];
+
+const pairwise = (settings: RiskSettings, equity: number) =>
+  validateSettings(settings, equity).issues.filter(i => PAIRWISE.includes(i.rule));
+
+const rules = (settings: RiskSettings) => validateSettings(settings, EQUITY).issues.map(i => i.rule);
+
+describe("validateSettings", () => {
+  it("passes the built-in presets", () => {
+    for (const mode of ["Conservative", "Standard", "Aggressive"] as const) {
+      const result = validateSettings(PRESET_MAP[mode], EQUITY);
+      expect(result.issues).toEqual([]);
+      expect(result.hasErrors || result.hasWarnings).toBe(false);
+    }
+  });
+
+  it("rejects bad values per field", () => {
+    const result = validateSettings({ ...PRESET_MAP.Standard, dailyLossLimit: -0.01, totalLossLimit: 1.5, maxOrderSize: 2.5, perSymbolExposureLimit: NaN }, EQUITY);
+    expect(result.hasErrors).toBe(true);
+    expect(result.byField.dailyLossLimit?.map(i => i.message)).toEqual(["Cannot be negative"]);
+    expect(result.byField.totalLossLimit?.map(i => i.message)).toEqual(["150.0% is more than 100%"]);
+    expect(result.byField.maxOrderSize?.map(i => i.message)).toEqual(["Must be a whole number"]);
+    expect(result.byField.perSymbolExposureLimit?.map(i => i.message)).toEqual(["Must be a number"]);
+  });
+
+  it("flags a per-symbol limit above its total as an error", () => {
+    const result = validateSettings({ ...PRESET_MAP.Custom, totalLossLimit: 0.05, perSymbolLossLimit: 0.06 }, EQUITY);
+    expect(result.issues).toEqual([
+      { rule: "symbolLossWithinTotal", field: "perSymbolLossLimit", severity: "error", message: "Per-symbol loss 6.0% exceeds total loss 5.0%" },
+    ]);
+  });
+
+  it("warns about a daily loss limit that can never trigger first", () => {
+    const result = validateSettings({ ...PRESET_MAP.Custom, totalLossLimit: 0.05, dailyLossLimit: 0.08 }, EQUITY);
+    expect(result.hasErrors).toBe(false);
+    expect(result.issues.map(i => [i.rule, i.severity])).toEqual([["dailyLossWithinTotal", "warning"]]);
+  });
+
+  it("skips pairwise rules when either limit is off", () => {
+    expect(rules({ ...PRESET_MAP.Custom, totalLossLimit: 0.05, perSymbolExposureLimit: 0.9 })).toEqual([]);
+    expect(rules({ ...PRESET_MAP.Custom, maxOrderSize: 5_000 })).toContain("totalLossConfigured");
+    expect(rules({ ...PRESET_MAP.Custom, maxOrderSize: 5_000 })).not.toContain("orderWithinPosition");
+  });
+
+  it("checks StopTime format and session hours", () => {
+    expect(validateSettings({ ...PRESET_MAP.Standard, stopTime: "9:30" }, EQUITY).byField.stopTime?.[0].severity).toBe("error");
+    expect(validateSettings({ ...PRESET_MAP.Standard, stopTime: "17:00" }, EQUITY).byField.stopTime?.[0]).toMatchObject({ rule: "stopTimeInSession", severity: "warning" });
+    expect(validateSettings({ ...PRESET_MAP.Standard, stopTime: "15:45" }, EQUITY).byField.stopTime).toBeUndefined();
+  });
+});
+
+describe("pairwise limit rules", () => {
+  it("compare the clamped dollars written to the cfg", () => {
+    const settings: RiskSettings = { ...PRESET_MAP.Standard, dollarClamps: { totalLossLimit: { min: 0, max: 2_000 } } };
+    expect(pairwise(settings, 100_000)).toEqual([{
+      rule: "symbolLossWithinTotal", field: "dollarClamps", severity: "error",
+      message: "Per-symbol loss $3,500 exceeds total loss $2,000 at $100,000 equity",
+    }]);
+    // Below $13,333 the 15% total loss stays under the cap
+    expect(pairwise(settings, 13_000)).toEqual([]);
+  });
+
+  it("check every tier, not only the one the account is in", () => {
+    const settings: RiskSettings = {
+      ...PRESET_MAP.Custom,
+      perSymbolExposureLimit: 0.2,
+      totalExposureLimit: 0.5,
+      equityTiers: [{ minEquity: 250_000, limits: { perSymbolExposureLimit: 0.9 } }],
+    };
+    expect(pairwise(settings, 100_000)).toEqual([{
+      rule: "symbolExposureWithinTotal", field: "equityTiers", severity: "error",
+      message: "Per-symbol exposure $225,000 exceeds total exposure $125,000 at $250,000 equity",
+    }]);
+  });
+
+  it("leave limits that are off alone", () => {
+    const settings: RiskSettings = { ...PRESET_MAP.Custom, dailyLossLimit: 0.03, dollarClamps: { totalLossLimit: { min: 1_000, max: 0 } } };
+    expect(pairwise(settings, 100_000)).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { type RiskSettings, type ScaledField, type StatusThresholds, dollars, pct } from "@/lib/calc";
+import { settingLabel } from "@/lib/diff";
+import { SCALED_FIELDS, hasScaling, scaleLimits, tierLabel } from "@/lib/tiers";
+
+export type IssueSeverity = "error" | "warning";
+
+export interface SettingsIssue {
+  rule: string;
+  field: keyof RiskSettings;
+  severity: IssueSeverity;
+  message: string;
+}
+
+export interface ValidationResult {
+  issues: SettingsIssue[];
+  byField: Partial<Record<keyof RiskSettings, SettingsIssue[]>>;
+  hasErrors: boolean;
+  hasWarnings: boolean;
+}
+
+type Found = Omit<SettingsIssue, "rule">;
+type Rule = (s: RiskSettings, equity: number) => Found | Found[] | null;
+
+const LOSS_FIELDS = ["dailyLossLimit", "totalLossLimit", "perSymbolLossLimit", "profitLockDrawdown"] as const;
+const EXPOSURE_FIELDS = ["perSymbolExposureLimit", "totalExposureLimit", "profitLockStart"] as const;
+const COUNT_FIELDS = ["maxSharesPerPosition", "maxOrderSize", "maxDailyTrades", "maxPositions"] as const;
+
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// A limit of 0 means "not configured", so pairwise rules only apply when both are set
+const isSet = (n: number) => n > 0;
+
+// Tiers and clamps change the limits' proportions, so compare dollars where they take effect: the account's equity and each tier start
+function checkedEquities(s: RiskSettings, equity: number): number[] {
+  return [...new Set([equity, ...s.equityTiers.map(t => t.minEquity)])].filter(e => Number.isFinite(e) && e > 0);
+}
+
+/**
+ * `field` set above `limit`, both set. Flat settings compare as percentages;
+ * with tiers or clamps the dollar limits are compared at each checked equity,
+ * and the issue goes to the tier table or clamps when one of them caused it.
+ */
+function exceeds(
+  s: RiskSettings,
+  equity: number,
+  field: ScaledField,
+  limit: ScaledField,
+  severity: IssueSeverity,
+  message: (value: string, limit: string, where: string) => string,
+): Found | null {
+  const equities = checkedEquities(s, equity);
+  if (!hasScaling(s) || equities.length === 0) {
+    return isSet(s[field]) && isSet(s[limit]) && s[field] > s[limit] ? { field, severity, message: message(pct(s[field], 1), pct(s[limit], 1), "") } : null;
+  }
+  for (const at of equities) {
+    const scaled = scaleLimits(s, at);
+    const [a, b] = [scaled[field], scaled[limit]];
+    if (!(isSet(a.amount) && isSet(b.amount) && a.amount > b.amount)) continue;
+    const source = a.tier || b.tier ? "equityTiers" : a.clamp || b.clamp ? "dollarClamps" : field;
+    return { field: source, severity, message: message(dollars(a.amount), dollars(b.amount), ` at ${dollars(at)} equity`) };
+  }
+  return null;
+}
+
+/**
+ * Rules over RiskSettings. Each returns the issue(s) it finds, attached to the
+ * field the user should change. Errors block export; warnings are advisory.
+ */
+export const RULES: Record<string, Rule> = {
+  finiteNumbers: (s) => [...LOSS_FIELDS, ...EXPOSURE_FIELDS, ...COUNT_FIELDS]
+    .filter(f => !Number.isFinite(s[f]))
+    .map(field => ({ field, severity: "error", message: "Must be a number" })),
+
+  nonNegative: (s) => [...LOSS_FIELDS, ...EXPOSURE_FIELDS, ...COUNT_FIELDS]
+    .filter(f => s[f] < 0)
+    .map(field => ({ field, severity: "error", message: "Cannot be negative" })),
+
+  lossAtMostEquity: (s) => LOSS_FIELDS
+    .filter(f => s[f] > 1)
+    .map(field => ({ field, severity: "error", message: `${pct(s[field], 1)} is more than 100%` })),
+
+  exposureAboveEquity: (s) => EXPOSURE_FIELDS
+    .filter(f => s[f] > 1)
+    .map(field => ({ field, severity: "warning", message: `${pct(s[field], 1)} of equity relies on margin` })),
+
+  wholeCounts: (s) => COUNT_FIELDS
+    .filter(f => !Number.isInteger(s[f]))
+    .map(field => ({ field, severity: "error", message: "Must be a whole number" })),
+
+  symbolExposureWithinTotal: (s, equity) => exceeds(s, equity, "perSymbolExposureLimit", "totalExposureLimit", "error",
+    (value, limit, where) => `Per-symbol exposure ${value} exceeds total exposure ${limit}${where}`),
+
+  symbolLossWithinTotal: (s, equity) => exceeds(s, equity, "perSymbolLossLimit", "totalLossLimit", "error",
+    (value, limit, where) => `Per-symbol loss ${value} exceeds total loss ${limit}${where}`),
+
+  dailyLossWithinTotal: (s, equity) => exceeds(s, equity, "dailyLossLimit", "totalLossLimit", "warning",
+    (value, limit, where) => `Daily loss ${value} is above total loss ${limit}${where} and will never trigger first`),
+
+  symbolLossWithinSymbolExposure: (s, equity) => exceeds(s, equity, "perSymbolLossLimit", "perSymbolExposureLimit", "warning",
+    (_value, _limit, where) => `Per-symbol loss is larger than the largest position allowed${where}`),
+
+  orderWithinPosition: (s) =>
+    isSet(s.maxOrderSize) && isSet(s.maxSharesPerPosition) && s.maxOrderSize > s.maxSharesPerPosition
+      ? { field: "maxOrderSize", severity: "error", message: `Max order size ${s.maxOrderSize.toLocaleString()} exceeds max shares per position ${s.maxSharesPerPosition.toLocaleString()}` }
+      : null,
+
+  stopTimeFormat: (s) =>
+    s.stopTime !== "" && !TIME_RE.test(s.stopTime)
+      ? { field: "stopTime", severity: "error", message: `"${s.stopTime}" is not a valid HH:MM time` }
+      : null,
+
+  stopTimeInSession: (s) =>
+    TIME_RE.test(s.stopTime) && (s.stopTime < "09:30" || s.stopTime > "16:00")
+      ? { field: "stopTime", severity: "warning", message: `${s.stopTime} ET is outside regular hours (09:30–16:00)` }
+      : null,
+
+  profitLockDrawdownSet: (s) =>
+    isSet(s.profitLockStart) && !isSet(s.profitLockDrawdown)
+      ? { field: "profitLockDrawdown", severity: "warning", message: "Profit lock arms with 0% drawdown and will stop out on any pullback" }
+      : null,
+
+  tierPercentages: (s) => s.equityTiers.flatMap(t => SCALED_FIELDS.flatMap<Found>(f => {
+    const value = t.limits[f];
+    const where = `${settingLabel(f)} in the ${tierLabel(t)} tier`;
+    if (value === undefined) return [];
+    if (!Number.isFinite(value) || value < 0) return [{ field: "equityTiers", severity: "error", message: `${where} must be a number of 0 or more` }];
+    if (value > 1 && (LOSS_FIELDS as readonly string[]).includes(f)) return [{ field: "equityTiers", severity: "error", message: `${where} is ${pct(value, 1)}, more than 100%` }];
+    return [];
+  })),
+
+  tierStartsDistinct: (s) => s.equityTiers.flatMap<Found>((t, i) =>
+    !Number.isFinite(t.minEquity) || t.minEquity < 0 ? [{ field: "equityTiers", severity: "error", message: "Each tier needs a starting equity of $0 or more" }]
+    : s.equityTiers.findIndex(o => o.minEquity === t.minEquity) !== i ? [{ field: "equityTiers", severity: "error", message: `Two tiers start at ${dollars(t.minEquity)}` }]
+    : []),
+
+  clampFloorBelowCap: (s) => SCALED_FIELDS.flatMap<Found>(f => {
+    const c = s.dollarClamps[f];
+    if (!c) return [];
+    if (![c.min, c.max].every(n => Number.isFinite(n) && n >= 0)) return [{ field: "dollarClamps", severity: "error", message: `${settingLabel(f)} floor and cap must be $0 or more` }];
+    return c.min > 0 && c.max > 0 && c.min > c.max
+      ? [{ field: "dollarClamps", severity: "error", message: `${settingLabel(f)} floor ${dollars(c.min)} is above its cap ${dollars(c.max)}` }]
+      : [];
+  }),
+
+  totalLossConfigured: (s) =>
+    !isSet(s.totalLossLimit)
+      ? { field: "totalLossLimit", severity: "warning", message: "No total loss limit; DAS will not liquidate on losses" }
+      : null,
+};
+
+// `equity` is the account's, the one the cfg is written for; tiered and clamped limits are also checked at each tier start
+export function validateSettings(settings: RiskSettings, equity: number): ValidationResult {
+  const issues: SettingsIssue[] = [];
+  for (const [rule, check] of Object.entries(RULES)) {
+    const found = check(settings, equity);
+    if (!found) continue;
+    for (const issue of Array.isArray(found) ? found : [found]) issues.push({ rule, ...issue });
+  }
+
+  const byField: ValidationResult["byField"] = {};
+  for (const issue of issues) (byField[issue.field] ??= []).push(issue);
+
+  return {
+    issues,
+    byField,
+    hasErrors: issues.some(i => i.severity === "error"),
+    hasWarnings: issues.some(i => i.severity === "warning"),
+  };
+}
+
+export interface ThresholdIssue {
+  field: keyof StatusThresholds;
+  severity: IssueSeverity;
+  message: string;
+}
+
+const BANDS: [caution: keyof StatusThresholds, danger: keyof StatusThresholds][] = [
+  ["drawdownCaution", "drawdownDanger"],
+  ["lossCaution", "lossDanger"],
+  ["haltedCaution", "haltedDanger"],
+];
+
+// Status bands only drive the dashboard, never the exported cfg, so nothing here blocks export
+export function validateThresholds(t: StatusThresholds): ThresholdIssue[] {
+  const issues: ThresholdIssue[] = [];
+  for (const field of Object.keys(t) as (keyof StatusThresholds)[]) {
+    if (!Number.isFinite(t[field]) || t[field] < 0) issues.push({ field, severity: "error", message: "Must be a non-negative number" });
+  }
+  for (const [caution, danger] of BANDS) {
+    if (t[caution] >= t[danger]) {
+      issues.push({ field: caution, severity: "error", message: `Caution ${pct(t[caution], 1)} must be below Danger ${pct(t[danger], 1)}` });
+    }
+  }
+  if (t.flattenLoss < t.lossDanger) {
+    issues.push({ field: "flattenLoss", severity: "warning", message: "Flatten fires before the loss budget chip reaches Danger" });
+  }
+  if (t.flattenHalted < t.haltedDanger) {
+    issues.push({ field: "flattenHalted", severity: "warning", message: "Flatten fires before the halted exposure chip reaches Danger" });
+  }
+  return issues;
+}
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+// Stand-in for the DAS Trader CMD API that replays a recorded session to every client.
+//
+//   node scripts/das-mock-server.mjs scripts/das-session.sample.txt [--port 9910]
+//
+// Recording lines:
+//   > LOGIN            wait until the client sends a line starting with this text;
+//                      lines sent before the step is reached are queued, other lines skipped
+//   < #LOGIN SUCCESSED send this line to the client
+//   @ 500              pause for this many milliseconds
+//   # comment / blank  ignored
+// Once the recording ends the connection stays open, so the client keeps polling.
+import { createServer } from "node:net";
+import { readFileSync } from "node:fs";
+
+const args = process.argv.slice(2);
+const file = args.find(a => !a.startsWith("--"));
+const portFlag = args.indexOf("--port");
+const port = portFlag >= 0 ? Number(args[portFlag + 1]) : 9910;
+if (!file || !Number.isInteger(port)) {
+  console.error("Usage: node scripts/das-mock-server.mjs <recording.txt> [--port 9910]");
+  process.exit(1);
+}
+
+const steps = readFileSync(file, "utf8").split(/\r?\n/)
+  .filter(line => line.trim() !== "" && !line.startsWith("#"))
+  .map(line => ({ kind: line[0], text: line.slice(1).trim() }));
+
+const server = createServer(socket => {
+  const from = `${socket.remoteAddress}:${socket.remotePort}`;
+  console.log(`${from} connected`);
+  let buffer = "";
+  const received = [];   // Client lines not yet read by a step
+  let wake = null;       // Set while a step waits for the next line
+
+  const nextLine = () => received.length > 0 ? Promise.resolve(received.shift()) : new Promise(resolve => { wake = resolve; });
+  const waitFor = async prefix => {
+    while (!(await nextLine()).startsWith(prefix)) continue;
+  };
+
+  socket.setEncoding("utf8");
+  socket.on("data", chunk => {
+    const lines = (buffer + chunk).split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      console.log(`${from} > ${line.startsWith("LOGIN") ? "LOGIN ***" : line}`);
+      if (wake) {
+        const resolve = wake;
+        wake = null;
+        resolve(line);
+      } else {
+        received.push(line);
+      }
+    }
+  });
+  socket.on("close", () => console.log(`${from} closed`));
+  socket.on("error", () => {});
+
+  (async () => {
+    for (const step of steps) {
+      if (socket.destroyed) return;
+      if (step.kind === ">") await waitFor(step.text);
+      else if (step.kind === "<") socket.write(`${step.text}\r\n`);
+      else if (step.kind === "@") await new Promise(resolve => setTimeout(resolve, Number(step.text) || 0));
+    }
+  })();
+});
+
+// --port 0 picks a free port; the line below reports the one in use
+server.listen(port, () => console.log(`DAS mock listening on ${server.address().port}, replaying ${file}`));
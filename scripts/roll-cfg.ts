@@ -0,0 +1,51 @@
+// Write one DAS cfg per account in a roster:
+//   npm run cfg:roll -- <roster.json|roster.csv> [--out <dir>]
+// Accounts that fail validation are listed and skipped; the exit code is 1 if any did.
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { renderCfg } from "@/lib/cfg";
+import { parseRoster } from "@/lib/roster";
+
+function usage(message?: string): never {
+  if (message) console.error(message);
+  console.error("Usage: npm run cfg:roll -- <roster.json|roster.csv> [--out <dir>]");
+  process.exit(2);
+}
+
+const args = process.argv.slice(2);
+let rosterPath: string | undefined;
+let outDir = "cfg";
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === "--out") outDir = args[++i] ?? usage("--out needs a directory");
+  else if (args[i] === "--help" || args[i] === "-h") usage();
+  else if (!rosterPath) rosterPath = args[i];
+  else usage(`Unexpected argument "${args[i]}"`);
+}
+if (!rosterPath) usage();
+
+let text: string;
+try {
+  text = readFileSync(rosterPath, "utf8");
+} catch (err) {
+  usage(`Cannot read ${rosterPath}: ${(err as Error).message}`);
+}
+
+const format = path.extname(rosterPath).toLowerCase() === ".csv" ? "csv" : "json";
+const { specs, errors } = parseRoster(text, format);
+
+mkdirSync(outDir, { recursive: true });
+let written = 0;
+for (const spec of specs) {
+  const cfg = renderCfg(spec);
+  if (cfg.text === null) {
+    errors.push(`${spec.account}: ${cfg.issues.filter(i => i.severity === "error").map(i => i.message).join("; ")}`);
+    continue;
+  }
+  writeFileSync(path.join(outDir, cfg.fileName), cfg.text);
+  console.log(`wrote ${path.join(outDir, cfg.fileName)}`);
+  written++;
+}
+
+for (const error of errors) console.error(`skipped ${error}`);
+console.log(`${written} cfg file${written === 1 ? "" : "s"} written to ${outDir}${errors.length ? `, ${errors.length} problem${errors.length === 1 ? "" : "s"}` : ""}`);
+process.exit(errors.length > 0 ? 1 : 0);
@@ -0,0 +1,41 @@
+// Lets Node run the TypeScript CLIs in scripts/ against lib/ without a build step:
+//   node --import ./scripts/ts-loader.mjs scripts/<name>.ts
+// Types are stripped with the project's own TypeScript, which is why it is a runtime
+// dependency rather than a dev one (`npm ci --omit=dev` still runs cfg:roll); nothing
+// is type-checked here.
+import { register } from "node:module";
+import { existsSync, readFileSync } from "node:fs";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import path from "node:path";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+if (!process.env.COBRA_TS_LOADER) {
+  process.env.COBRA_TS_LOADER = "1";
+  register(import.meta.url, pathToFileURL(root + "/"));
+}
+
+// `@/lib/x` and extensionless relative imports, as tsconfig resolves them
+export async function resolve(specifier, context, next) {
+  let target = null;
+  if (specifier.startsWith("@/")) target = path.join(root, specifier.slice(2));
+  else if ((specifier.startsWith("./") || specifier.startsWith("../")) && context.parentURL?.startsWith("file:")) {
+    target = path.resolve(path.dirname(fileURLToPath(context.parentURL)), specifier);
+  }
+  if (target && !path.extname(target)) {
+    const file = [".ts", ".tsx", "/index.ts"].map(ext => target + ext).find(existsSync);
+    if (file) return { url: pathToFileURL(file).href, shortCircuit: true };
+  }
+  return next(target && existsSync(target) ? pathToFileURL(target).href : specifier, context);
+}
+
+export async function load(url, context, next) {
+  if (!/\.tsx?$/.test(url)) return next(url, context);
+  const { default: ts } = await import("typescript");
+  const fileName = fileURLToPath(url);
+  const { outputText } = ts.transpileModule(readFileSync(fileName, "utf8"), {
+    fileName,
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020, jsx: ts.JsxEmit.ReactJSX },
+  });
+  return { format: "module", source: outputText, shortCircuit: true };
+}
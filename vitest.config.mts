@@ -0,0 +1,10 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// lib/ code only, so plain Node is enough (the DAS client test spawns the mock server); `@/` resolves as in tsconfig.
+// An inline PostCSS config keeps Vite from loading the Tailwind one the app uses.
+export default defineConfig({
+  resolve: { alias: { "@": fileURLToPath(new URL(".", import.meta.url)) } },
+  css: { postcss: {} },
+  test: { environment: "node", include: ["lib/**/*.test.ts"] },
+});